@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+"use strict";
+
+const {readFileSync, writeFileSync} = require("fs");
+const {generateTypeScript, sessionBus, systemBus} = require("..");
+
+const usage = `Usage: dbusjs-codegen [options] [file.xml...]
+
+Generate TypeScript clients and server stubs from D-Bus introspection XML files,
+or from a live object on the session or system bus.
+
+Options:
+  -o, --output FILE        write to FILE instead of standard output
+  -i, --interface NAME     only generate code for interface NAME, may be repeated
+  --service NAME           introspect the object of service NAME at --path
+  --path PATH              object path to introspect, defaults to /
+  --system                 introspect on the system bus instead of the session bus
+  --import-from MODULE     module generated code imports from, defaults to dbusjs
+  --include-standard       also generate code for org.freedesktop.DBus.* standard interfaces
+  -h, --help               show this help
+`;
+
+function parseArguments(argv) {
+    const result = {files: [], interfaces: [], path: "/"};
+
+    for (let n = 0; n < argv.length; ++n) {
+        const arg = argv[n];
+        const value = () => {
+            if (++n >= argv.length)
+                throw new Error(`Missing value for ${arg}`);
+
+            return argv[n];
+        };
+
+        switch (arg) {
+        case "-o":
+        case "--output":
+            result.output = value();
+            break;
+
+        case "-i":
+        case "--interface":
+            result.interfaces.push(value());
+            break;
+
+        case "--service":
+            result.service = value();
+            break;
+
+        case "--path":
+            result.path = value();
+            break;
+
+        case "--system":
+            result.system = true;
+            break;
+
+        case "--import-from":
+            result.importFrom = value();
+            break;
+
+        case "--include-standard":
+            result.includeStandard = true;
+            break;
+
+        case "-h":
+        case "--help":
+            result.help = true;
+            break;
+
+        default:
+            if (arg.startsWith("-"))
+                throw new Error(`Unknown option ${arg}`);
+
+            result.files.push(arg);
+        }
+    }
+
+    return result;
+}
+
+function readSources(args) {
+    const sources = args.files.map(f => readFileSync(f, "utf8"));
+    if (!args.service)
+        return Promise.resolve(sources);
+
+    // the connection is left for process.exit to close
+    return (args.system ? systemBus : sessionBus)()
+        .then(bus => bus.introspect(args.path, args.service))
+        .then(result => [...sources, result]);
+}
+
+function main() {
+    const args = parseArguments(process.argv.slice(2));
+    if (args.help || !args.files.length && !args.service) {
+        process.stdout.write(usage);
+        return Promise.resolve(args.help ? 0 : 1);
+    }
+
+    return readSources(args).then(sources => {
+        const code = generateTypeScript(sources, {
+            importFrom: args.importFrom,
+            interfaces: args.interfaces.length ? args.interfaces : undefined,
+            includeStandard: args.includeStandard,
+        });
+
+        if (args.output)
+            writeFileSync(args.output, code);
+        else
+            process.stdout.write(code);
+
+        return 0;
+    });
+}
+
+Promise.resolve()
+    .then(main)
+    .then(
+        code => process.exit(code),
+        e => {
+            process.stderr.write(`dbusjs-codegen: ${e.message}\n`);
+            process.exit(1);
+        });
@@ -0,0 +1,580 @@
+import {createHash, randomBytes} from "crypto";
+import {readFile} from "fs/promises";
+import type {Socket} from "net";
+import {homedir, userInfo} from "os";
+import {join} from "path";
+
+/**
+ * A SASL mechanism to authenticate with, as in the AUTH command
+ */
+export interface AuthMethod {
+    readonly name: string;
+
+    // the data to send along with AUTH, undefined to wait for the server to ask with DATA
+    initialResponse(): Promise<Uint8Array | undefined>;
+
+    // answer a DATA challenge from the server, failing makes the client give up on this method
+    respond(challenge: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface AuthOptions {
+    // methods to try in order of preference, limited to those the server supports
+    authMethods?: ReadonlyArray<AuthMethod>;
+
+    // whether to ask for the ability to pass unix file descriptors
+    negotiateUnixFD?: boolean;
+
+    // milliseconds the server has to let this end in, 30 seconds by default
+    authTimeout?: number;
+}
+
+export interface AuthResult {
+    // the globally unique ID of the server, as in the guid of addresses
+    guid: string;
+
+    // the name of the method that succeeded
+    method: string;
+
+    // whether the server agreed to pass unix file descriptors
+    unixFD: boolean;
+}
+
+const textEncoder = new TextEncoder();
+const emptyBytes = new Uint8Array(0);
+
+// As in the reference implementation
+const defaultAuthTimeout = 30000;
+
+function toHex(value: Uint8Array): string {
+    return Buffer.from(value).toString("hex");
+}
+
+function fromHex(value: string): Uint8Array {
+    if (!/^([0-9A-Fa-f]{2})*$/.test(value))
+        throw new Error(`Invalid hex data in authentication: ${value}`);
+
+    return new Uint8Array(Buffer.from(value, "hex"));
+}
+
+/**
+ * Authenticate as the user owning the process, the server checks with the credentials of the socket
+ *
+ * @param uid the user ID to claim, the current one if absent
+ */
+export function externalAuth(uid?: number): AuthMethod {
+    return {
+        name: "EXTERNAL",
+        initialResponse: () => {
+            const id = uid ?? process.getuid?.();
+            return Promise.resolve(id === undefined ? undefined : textEncoder.encode(id.toString()));
+        },
+
+        // an empty response asks the server to use the credentials it got from the socket
+        respond: () => Promise.resolve(emptyBytes),
+    };
+}
+
+/**
+ * Connect without authenticating, if the server allows it
+ */
+export function anonymousAuth(trace?: string): AuthMethod {
+    return {
+        name: "ANONYMOUS",
+        initialResponse: () => Promise.resolve(trace === undefined ? undefined : textEncoder.encode(trace)),
+        respond: () => Promise.resolve(emptyBytes),
+    };
+}
+
+// Keyring contexts are file names in the keyring directory
+function isValidContext(context: string): boolean {
+    return context.length > 0 && !/[/\\.\s]/.test(context);
+}
+
+/**
+ * Authenticate by proving access to a secret cookie in the keyring of the user
+ *
+ * Needed by servers on tcp, where socket credentials cannot be had.
+ *
+ * @param user the name of the user to authenticate as, the current one if absent
+ * @param keyringDirectory where keyrings are, ~/.dbus-keyrings if absent
+ */
+export function cookieSha1Auth(user?: string, keyringDirectory?: string): AuthMethod {
+    return {
+        name: "DBUS_COOKIE_SHA1",
+        initialResponse: () => Promise.resolve(textEncoder.encode(user ?? userInfo().username)),
+        respond: (challenge: Uint8Array) => {
+            const [context, cookieID, serverChallenge] = Buffer.from(challenge).toString("ascii").split(" ");
+            if (!serverChallenge || !isValidContext(context))
+                return Promise.reject(new Error("Invalid DBUS_COOKIE_SHA1 challenge"));
+
+            const directory = keyringDirectory ?? join(homedir(), ".dbus-keyrings");
+            return readFile(join(directory, context), "ascii").then(keyring => {
+                // each line is the ID, creation time and the cookie itself
+                const line = keyring.split("\n").map(l => l.split(" ")).find(l => l[0] === cookieID);
+                if (!line || !line[2])
+                    throw new Error(`No cookie ${cookieID} in keyring ${context}`);
+
+                const clientChallenge = randomBytes(16).toString("hex");
+                const digest = createHash("sha1")
+                    .update(`${serverChallenge}:${clientChallenge}:${line[2]}`)
+                    .digest("hex");
+
+                return textEncoder.encode(`${clientChallenge} ${digest}`);
+            });
+        },
+    };
+}
+
+export function getDefaultAuthMethods(): AuthMethod[] {
+    return [externalAuth(), cookieSha1Auth(), anonymousAuth()];
+}
+
+const enum State {
+    // sent AUTH, waiting for OK, REJECTED, DATA or ERROR
+    WaitingForData,
+
+    // sent CANCEL or ERROR, waiting for REJECTED
+    WaitingForReject,
+
+    // sent NEGOTIATE_UNIX_FD, waiting for AGREE_UNIX_FD or ERROR
+    WaitingForAgreement,
+
+    Done,
+}
+
+class SaslClient {
+    private state = State.WaitingForData;
+    private buffered = "";
+    private readonly tried = new Set<string>();
+
+    // mechanisms the server accepts, undefined until it says so in REJECTED
+    private supported?: Set<string>;
+
+    private method?: AuthMethod;
+    private guid?: string;
+
+    // a response being worked out, server lines received meanwhile wait for it
+    private busy: Promise<void> = Promise.resolve();
+
+    private timer?: ReturnType<typeof setTimeout>;
+
+    private readonly listener = this.onData.bind(this);
+    private readonly closeListener = () => this.fail(new Error("Server hung up during authentication"));
+
+    constructor(
+        private readonly socket: Socket,
+        private readonly methods: ReadonlyArray<AuthMethod>,
+        private readonly options: AuthOptions,
+        private readonly expectedGUID: string | undefined,
+        private readonly resolve: (result: AuthResult) => void,
+        private readonly reject: (e: Error) => void,
+    ) {}
+
+    start(): void {
+        this.socket.addListener("data", this.listener);
+        this.socket.once("close", this.closeListener);
+
+        const timeout = this.options.authTimeout ?? defaultAuthTimeout;
+        if (timeout > 0 && timeout < Infinity)
+            this.timer = setTimeout(() => this.fail(new Error(`Server did not accept within ${timeout}ms`)), timeout);
+
+        this.socket.write("\0");
+        this.busy = this.tryNextMethod();
+    }
+
+    private send(command: string): void {
+        this.socket.write(`${command}\r\n`);
+    }
+
+    private finish(): void {
+        this.state = State.Done;
+        this.socket.removeListener("data", this.listener);
+        this.socket.removeListener("close", this.closeListener);
+        clearTimeout(this.timer);
+    }
+
+    private fail(error: Error): void {
+        this.finish();
+        this.reject(error);
+    }
+
+    private tryNextMethod(): Promise<void> {
+        const method = this.methods.find(m => !this.tried.has(m.name) && (!this.supported || this.supported.has(m.name)));
+        if (!method) {
+            this.fail(new Error("No auth methods can be used"));
+            return Promise.resolve();
+        }
+
+        this.method = method;
+        this.tried.add(method.name);
+        this.state = State.WaitingForData;
+
+        // a method that can't even start is skipped without bothering the server
+        return method.initialResponse().then(
+            response => this.send(response ? `AUTH ${method.name} ${toHex(response)}` : `AUTH ${method.name}`),
+            () => this.tryNextMethod());
+    }
+
+    private onData(data: Uint8Array): void {
+        this.buffered += Buffer.from(data).toString("latin1");
+
+        let delimiterIndex;
+        while ((delimiterIndex = this.buffered.indexOf("\r\n")) > -1) {
+            const line = this.buffered.slice(0, delimiterIndex);
+            this.buffered = this.buffered.slice(delimiterIndex + 2);
+            this.busy = this.busy.then(() => this.onLine(line));
+        }
+    }
+
+    private onLine(line: string): Promise<void> | void {
+        if (this.state === State.Done)
+            return;
+
+        const spaceIndex = line.indexOf(" ");
+        const command = spaceIndex < 0 ? line : line.slice(0, spaceIndex);
+        const argument = spaceIndex < 0 ? "" : line.slice(spaceIndex + 1);
+
+        switch (command) {
+        case "REJECTED":
+            this.supported = new Set(argument.split(" ").filter(v => v));
+            return this.tryNextMethod();
+
+        case "OK":
+            if (this.state !== State.WaitingForData)
+                break;
+
+            // already authenticated, but to a server other than the one asked for
+            if (this.expectedGUID && argument !== this.expectedGUID) {
+                this.fail(new Error(`Server GUID ${argument} does not match the expected ${this.expectedGUID}`));
+                return;
+            }
+
+            this.guid = argument;
+            if (this.options.negotiateUnixFD) {
+                this.state = State.WaitingForAgreement;
+                this.send("NEGOTIATE_UNIX_FD");
+                return;
+            }
+
+            this.begin(false);
+            return;
+
+        case "DATA":
+            if (this.state !== State.WaitingForData)
+                break;
+
+            return this.respond(argument);
+
+        case "AGREE_UNIX_FD":
+            if (this.state !== State.WaitingForAgreement)
+                break;
+
+            this.begin(true);
+            return;
+
+        case "ERROR":
+            if (this.state === State.WaitingForAgreement) {
+                this.begin(false);
+                return;
+            }
+
+            if (this.state === State.WaitingForData) {
+                this.state = State.WaitingForReject;
+                this.send("CANCEL");
+            }
+
+            return;
+        }
+
+        // anything unexpected is answered with an error, the server then rejects the method being tried
+        this.send("ERROR");
+    }
+
+    private respond(argument: string): Promise<void> {
+        return Promise.resolve()
+            .then(() => this.method!.respond(fromHex(argument)))
+            .then(response => this.send(response.length ? `DATA ${toHex(response)}` : "DATA"), () => {
+                this.state = State.WaitingForReject;
+                this.send("CANCEL");
+            });
+    }
+
+    private begin(unixFD: boolean): void {
+        this.finish();
+        this.send("BEGIN");
+        this.resolve({guid: this.guid!, method: this.method!.name, unixFD});
+    }
+}
+
+/**
+ * Go through the SASL exchange opening a connection, up to and including BEGIN
+ *
+ * @param guid the server is expected to have, as in the guid of addresses
+ */
+export function authenticate(socket: Socket, options?: AuthOptions, guid?: string): Promise<AuthResult> {
+    const methods = options?.authMethods || getDefaultAuthMethods();
+    return new Promise((resolve, reject) => {
+        new SaslClient(socket, methods, options || {}, guid, resolve, reject).start();
+    });
+}
+
+export interface ServerAuthOptions {
+    // let clients in without authenticating, as ANONYMOUS
+    allowAnonymous?: boolean;
+
+    /**
+     * Offer EXTERNAL on unix domain sockets bound to a path, never on abstract ones or tcp
+     *
+     * Node cannot read the credentials of the peer of a socket, so the user a client claims to be is taken at its
+     * word. Only turn this on when access to the socket is restricted by other means, such as the permissions of
+     * its file or directory.
+     */
+    allowExternal?: boolean;
+
+    // tell whether the user a client claims to be with EXTERNAL may connect, only the user of this process by default
+    allowUser?(uid: number): boolean;
+
+    // milliseconds clients have to authenticate before being dropped, 30 seconds by default
+    authTimeout?: number;
+}
+
+export interface ServerAuthResult extends AuthResult {
+    // the user the client claimed to be, if it authenticated with EXTERNAL
+    uid?: number;
+
+    // what the client sent right after BEGIN, the start of its first message
+    remainder: Uint8Array;
+}
+
+const enum ServerState {
+    // waiting for the nul byte clients send first
+    WaitingForNul,
+
+    // waiting for AUTH
+    WaitingForAuth,
+
+    // sent DATA, waiting for DATA
+    WaitingForData,
+
+    // sent OK, waiting for BEGIN
+    WaitingForBegin,
+
+    Done,
+}
+
+// Clients have no business sending more than this before BEGIN
+const maxHandshakeBytes = 16384;
+
+class SaslServer {
+    private state = ServerState.WaitingForNul;
+    private buffered = Buffer.alloc(0);
+    private received = 0;
+    private method?: string;
+    private uid?: number;
+    private unixFD = false;
+    private timer?: ReturnType<typeof setTimeout>;
+
+    private readonly listener = this.onData.bind(this);
+    private readonly closeListener = () => this.fail(new Error("Client hung up before authenticating"));
+
+    constructor(
+        private readonly socket: Socket,
+        private readonly guid: string,
+        private readonly external: boolean,
+        private readonly options: ServerAuthOptions,
+        private readonly resolve: (result: ServerAuthResult) => void,
+        private readonly reject: (e: Error) => void,
+    ) {}
+
+    private get methods(): string[] {
+        const result = [];
+        if (this.external)
+            result.push("EXTERNAL");
+
+        if (this.options.allowAnonymous)
+            result.push("ANONYMOUS");
+
+        return result;
+    }
+
+    start(): void {
+        this.socket.addListener("data", this.listener);
+        this.socket.once("close", this.closeListener);
+
+        const timeout = this.options.authTimeout ?? defaultAuthTimeout;
+        if (timeout > 0 && timeout < Infinity)
+            this.timer = setTimeout(() => this.fail(new Error(`Client did not authenticate within ${timeout}ms`)), timeout);
+    }
+
+    private send(command: string): void {
+        this.socket.write(`${command}\r\n`);
+    }
+
+    private finish(): void {
+        this.state = ServerState.Done;
+        this.socket.removeListener("data", this.listener);
+        this.socket.removeListener("close", this.closeListener);
+        clearTimeout(this.timer);
+    }
+
+    private fail(error: Error): void {
+        this.finish();
+        this.reject(error);
+    }
+
+    // what comes after BEGIN is the first message, only the handshake itself counts towards the limit
+    private consume(length: number): boolean {
+        this.received += length;
+        if (this.received <= maxHandshakeBytes)
+            return true;
+
+        this.fail(new Error("Client sent too much without authenticating"));
+        return false;
+    }
+
+    private onData(data: Uint8Array): void {
+        this.buffered = Buffer.concat([this.buffered, data]);
+        if (this.state === ServerState.WaitingForNul) {
+            if (this.buffered[0] !== 0) {
+                this.fail(new Error("Client did not start with a nul byte"));
+                return;
+            }
+
+            this.consume(1);
+            this.buffered = this.buffered.subarray(1);
+            this.state = ServerState.WaitingForAuth;
+        }
+
+        let delimiterIndex;
+        while (this.state !== ServerState.Done && (delimiterIndex = this.buffered.indexOf("\r\n")) > -1) {
+            if (!this.consume(delimiterIndex + 2))
+                return;
+
+            const line = this.buffered.subarray(0, delimiterIndex).toString("latin1");
+            this.buffered = this.buffered.subarray(delimiterIndex + 2);
+            this.onLine(line);
+        }
+
+        // a line that never ends
+        if (this.state !== ServerState.Done && this.received + this.buffered.length > maxHandshakeBytes)
+            this.fail(new Error("Client sent too much without authenticating"));
+    }
+
+    private onLine(line: string): void {
+        const [command, ...args] = line.split(" ");
+
+        switch (command) {
+        case "AUTH":
+            if (this.state !== ServerState.WaitingForAuth)
+                break;
+
+            this.onAuth(args[0], args[1]);
+            return;
+
+        case "DATA":
+            if (this.state !== ServerState.WaitingForData)
+                break;
+
+            this.onResponse(args[0] || "");
+            return;
+
+        case "BEGIN":
+            if (this.state !== ServerState.WaitingForBegin)
+                break;
+
+            this.finish();
+            this.resolve({
+                guid: this.guid,
+                method: this.method!,
+                unixFD: this.unixFD,
+                uid: this.uid,
+                remainder: new Uint8Array(this.buffered),
+            });
+
+            return;
+
+        case "NEGOTIATE_UNIX_FD":
+            if (this.state !== ServerState.WaitingForBegin)
+                break;
+
+            // only unix domain sockets can carry file descriptors
+            this.unixFD = this.external;
+            this.send(this.unixFD ? "AGREE_UNIX_FD" : "ERROR Unix file descriptors are not supported here");
+            return;
+
+        case "CANCEL":
+        case "ERROR":
+            if (this.state === ServerState.WaitingForAuth)
+                break;
+
+            this.turnDown();
+            return;
+        }
+
+        this.send(`ERROR Unexpected ${command}`);
+    }
+
+    // turn the client down and let it try another method
+    private turnDown(): void {
+        this.state = ServerState.WaitingForAuth;
+        this.method = undefined;
+        this.uid = undefined;
+        this.send(`REJECTED ${this.methods.join(" ")}`);
+    }
+
+    private accept(): void {
+        this.state = ServerState.WaitingForBegin;
+        this.send(`OK ${this.guid}`);
+    }
+
+    private onAuth(method: string | undefined, initialResponse: string | undefined): void {
+        if (!method || !this.methods.includes(method)) {
+            this.turnDown();
+            return;
+        }
+
+        this.method = method;
+        if (initialResponse === undefined && method === "EXTERNAL") {
+            this.state = ServerState.WaitingForData;
+            this.send("DATA");
+            return;
+        }
+
+        this.onResponse(initialResponse || "");
+    }
+
+    private onResponse(hex: string): void {
+        if (this.method === "ANONYMOUS") {
+            this.accept();
+            return;
+        }
+
+        // an empty claim defers to the credentials of the socket, which can't be had
+        const claimed = /^([0-9A-Fa-f]{2})+$/.test(hex) ? Buffer.from(hex, "hex").toString("ascii") : "";
+        const allowUser = this.options.allowUser || ((uid: number) => uid === process.getuid?.());
+        const uid = Number(claimed);
+        if (!/^\d+$/.test(claimed) || !allowUser(uid)) {
+            this.turnDown();
+            return;
+        }
+
+        this.uid = uid;
+        this.accept();
+    }
+}
+
+/**
+ * Go through the server side of the SASL exchange opening a connection, up to and including BEGIN
+ *
+ * @param external whether to offer EXTERNAL, which takes the user a client claims to be at its word
+ */
+export function acceptAuthentication(
+    socket: Socket,
+    guid: string,
+    external: boolean,
+    options?: ServerAuthOptions,
+): Promise<ServerAuthResult> {
+    return new Promise((resolve, reject) => {
+        new SaslServer(socket, guid, external, options || {}, resolve, reject).start();
+    });
+}
@@ -0,0 +1,398 @@
+import type {Socket} from "net";
+
+import type {ServerAuthResult} from "./auth";
+import {DBusError, ErrorName} from "./errors";
+import {MatchRule} from "./match";
+import {Builder as MessageBuilder, Flag, Header, Kind as MessageKind, Reader} from "./message";
+import {ReleaseNameReply, RequestNameFlag, RequestNameReply} from "./names";
+import {type Value, DataType, getBodySerializer} from "./serialization";
+import {type ServerOptions, ConnectionAcceptor} from "./server";
+import {buildError, buildReturn, buildSignal} from "./service";
+import {type Connection} from "./transport";
+import {isValidBusName} from "./validation";
+
+export type BrokerOptions = ServerOptions;
+
+const daemonName = "org.freedesktop.DBus";
+const daemonPath = "/org/freedesktop/DBus";
+
+// Input signatures of the methods the broker implements, with the signatures of their replies
+const daemonMethods: {[member: string]: [string, string]} = {
+    Hello: ["", "s"],
+    RequestName: ["su", "u"],
+    ReleaseName: ["s", "u"],
+    AddMatch: ["s", ""],
+    RemoveMatch: ["s", ""],
+    GetNameOwner: ["s", "s"],
+    NameHasOwner: ["s", "b"],
+    ListNames: ["", "as"],
+    ListActivatableNames: ["", "as"],
+    GetId: ["", "s"],
+};
+
+interface Client {
+    readonly connection: Connection;
+
+    // assigned in reply to Hello, nothing else is accepted before
+    name?: string;
+
+    // rules added with AddMatch by their text, with how many times each was added
+    readonly rules: Map<string, {rule: MatchRule; count: number}>;
+}
+
+interface NameRequest {
+    readonly client: Client;
+    flags: number;
+}
+
+function isWellKnownName(name: string): boolean {
+    return isValidBusName(name) && !name.startsWith(":") && name !== daemonName;
+}
+
+/**
+ * A message bus running in the same process, for tests and other setups without a bus daemon
+ *
+ * Implements name ownership, match rules and routing of the core org.freedesktop.DBus methods,
+ * without activation, policies or tracking of expected replies.
+ */
+export class Broker {
+    private readonly clients = new Set<Client>();
+
+    // connected clients by unique name
+    private readonly uniqueNames = new Map<string, Client>();
+
+    // well-known names with their queues, the primary owner first
+    private readonly names = new Map<string, NameRequest[]>();
+
+    private nextClientID = 1;
+
+    // set as soon as listening, before any client can connect
+    private acceptor!: ConnectionAcceptor;
+
+    private constructor() {
+        // do nothing
+    }
+
+    /**
+     * The globally unique ID of this bus
+     */
+    get guid(): string {
+        return this.acceptor.guid;
+    }
+
+    /**
+     * The address clients connect to with openBus, the guid included
+     */
+    get address(): string {
+        return this.acceptor.address;
+    }
+
+    private onConnection(connection: Connection, auth: ServerAuthResult, socket: Socket): void {
+        const client: Client = {connection, rules: new Map()};
+        connection.setMessageHandler(reader => this.onMessage(client, reader));
+        this.clients.add(client);
+        socket.once("close", () => this.disconnect(client));
+    }
+
+    private onMessage(client: Client, reader: Reader): void {
+        const kind = reader.getKind();
+        const destination = reader.getHeader(Header.Destination) as string | undefined;
+        const toDaemon = destination === daemonName || destination === undefined && kind === MessageKind.Call;
+
+        if (!client.name) {
+            if (toDaemon && kind === MessageKind.Call && reader.getHeader(Header.Member) === "Hello")
+                this.handleDaemonCall(client, reader);
+            else
+                client.connection.close();
+
+            return;
+        }
+
+        // the sender is always the unique name of the connection, whatever the client claimed
+        const builder = MessageBuilder.from(reader);
+        builder.setHeader(Header.Sender, DataType.String, client.name);
+        const message = builder.build();
+
+        if (toDaemon) {
+            if (kind === MessageKind.Call)
+                this.handleDaemonCall(client, new Reader(new DataView(message)));
+
+            return;
+        }
+
+        if (destination === undefined) {
+            this.broadcast(message, target => target.connection.forward(message));
+            return;
+        }
+
+        const target = this.resolve(destination);
+        if (target) {
+            target.connection.forward(message);
+        } else if (kind === MessageKind.Call && !(reader.getFlags() & Flag.NoReplyExpected)) {
+            const error = new DBusError(ErrorName.ServiceUnknown, `The name ${destination} was not provided by any .service files`);
+            this.sendTo(client, this.fromDaemon(buildError(new Reader(new DataView(message)), error)));
+        }
+    }
+
+    private resolve(name: string): Client | undefined {
+        return name.startsWith(":") ? this.uniqueNames.get(name) : this.names.get(name)?.[0].client;
+    }
+
+    private ownerOf(name: string): string | null {
+        if (name === daemonName)
+            return daemonName;
+
+        return this.resolve(name)?.name || null;
+    }
+
+    // Deliver a message without a destination to every client with a rule matching it
+    private broadcast(message: ArrayBuffer, deliver: (client: Client) => void): void {
+        const reader = new Reader(new DataView(message));
+        const kind = reader.getKind();
+        const headers = reader.getHeaders();
+        let body: ReadonlyArray<Value> | undefined;
+        const getBody = () => body || (body = new Reader(new DataView(message)).readBody());
+        const resolveName = (name: string) => this.ownerOf(name);
+
+        for (const client of this.clients) {
+            if (!client.name)
+                continue;
+
+            for (const {rule} of client.rules.values())
+                if (rule.matches(kind, headers, getBody, resolveName)) {
+                    deliver(client);
+                    break;
+                }
+        }
+    }
+
+    // Clients on their way out are sent nothing more
+    private sendTo(client: Client, message: ArrayBuffer): void {
+        if (!client.connection.closed)
+            client.connection.send(message);
+    }
+
+    // Messages from the bus itself carry its name as the sender
+    private fromDaemon(message: ArrayBuffer, destination?: string): ArrayBuffer {
+        const builder = MessageBuilder.from(new Reader(new DataView(message)));
+        builder.setHeader(Header.Sender, DataType.String, daemonName);
+        if (destination)
+            builder.setHeader(Header.Destination, DataType.String, destination);
+
+        return builder.build();
+    }
+
+    private emitSignal(member: string, signature: string, values: ReadonlyArray<Value>, destination?: Client): void {
+        const message = this.fromDaemon(
+            buildSignal(daemonPath, daemonName, member, getBodySerializer(signature), values),
+            destination?.name);
+
+        // each copy gets a serial of the connection it's sent on
+        if (destination)
+            this.sendTo(destination, message);
+        else
+            this.broadcast(message, client => this.sendTo(client, message.slice(0)));
+    }
+
+    private changeOwner(name: string, previous: Client | undefined, next: Client | undefined): void {
+        this.emitSignal("NameOwnerChanged", "sss", [name, previous?.name || "", next?.name || ""]);
+
+        if (previous && this.clients.has(previous))
+            this.emitSignal("NameLost", "s", [name], previous);
+
+        if (next)
+            this.emitSignal("NameAcquired", "s", [name], next);
+    }
+
+    private handleDaemonCall(client: Client, call: Reader): void {
+        const member = call.getHeader(Header.Member) as string;
+        const iface = call.getHeader(Header.Interface) as string | undefined;
+        let reply: ArrayBuffer;
+
+        try {
+            if (iface !== undefined && iface !== daemonName)
+                throw new DBusError(ErrorName.UnknownInterface, `Interface ${iface} is not supported by the bus`);
+
+            const method = daemonMethods[member];
+            if (!method)
+                throw new DBusError(ErrorName.UnknownMethod, `No method ${member} on the bus`);
+
+            const [signature, returns] = method;
+            if (call.getSignature() !== signature)
+                throw new DBusError(ErrorName.InvalidArgs, `${member} takes arguments of signature "${signature}"`);
+
+            const results = this.invoke(client, member, call.readBody());
+            reply = buildReturn(call, returns ? getBodySerializer(returns) : null, results);
+        } catch (e) {
+            if (!(e instanceof DBusError))
+                throw e;
+
+            reply = buildError(call, e);
+        }
+
+        if (!(call.getFlags() & Flag.NoReplyExpected))
+            this.sendTo(client, this.fromDaemon(reply, client.name));
+
+        // the name of a new connection is announced once it knows it
+        if (member === "Hello" && client.name) {
+            this.emitSignal("NameOwnerChanged", "sss", [client.name, "", client.name]);
+            this.emitSignal("NameAcquired", "s", [client.name], client);
+        }
+    }
+
+    private invoke(client: Client, member: string, args: ReadonlyArray<Value>): ReadonlyArray<Value> {
+        switch (member) {
+        case "Hello":
+            if (client.name)
+                throw new DBusError(ErrorName.Failed, "Already handled an Hello message");
+
+            client.name = `:1.${this.nextClientID++}`;
+            this.uniqueNames.set(client.name, client);
+            return [client.name];
+
+        case "RequestName":
+            return [this.requestName(client, args[0] as string, args[1] as number)];
+
+        case "ReleaseName":
+            return [this.releaseName(client, args[0] as string)];
+
+        case "AddMatch": {
+            const rule = MatchRule.parse(args[0] as string);
+            const text = rule.toString();
+            const entry = client.rules.get(text);
+            if (entry)
+                ++entry.count;
+            else
+                client.rules.set(text, {rule, count: 1});
+
+            return [];
+        }
+
+        case "RemoveMatch": {
+            const text = MatchRule.parse(args[0] as string).toString();
+            const entry = client.rules.get(text);
+            if (!entry)
+                throw new DBusError(ErrorName.MatchRuleNotFound, "The given match rule wasn't found and can't be removed");
+
+            if (--entry.count === 0)
+                client.rules.delete(text);
+
+            return [];
+        }
+
+        case "GetNameOwner": {
+            const owner = this.ownerOf(args[0] as string);
+            if (!owner)
+                throw new DBusError(ErrorName.NameHasNoOwner, `Could not get owner of name '${args[0]}': no such name`);
+
+            return [owner];
+        }
+
+        case "NameHasOwner":
+            return [!!this.ownerOf(args[0] as string)];
+
+        case "ListNames":
+            return [[daemonName, ...this.uniqueNames.keys(), ...this.names.keys()]];
+
+        case "ListActivatableNames":
+            return [[daemonName]];
+
+        case "GetId":
+            return [this.guid];
+
+        default:
+            throw new DBusError(ErrorName.UnknownMethod, `No method ${member} on the bus`);
+        }
+    }
+
+    private requestName(client: Client, name: string, flags: number): RequestNameReply {
+        if (!isWellKnownName(name))
+            throw new DBusError(ErrorName.InvalidArgs, `Cannot acquire the name ${name}`);
+
+        const queue = this.names.get(name);
+        if (!queue) {
+            this.names.set(name, [{client, flags}]);
+            this.changeOwner(name, undefined, client);
+            return RequestNameReply.PrimaryOwner;
+        }
+
+        const [primary] = queue;
+        if (primary.client === client) {
+            primary.flags = flags;
+            return RequestNameReply.AlreadyOwner;
+        }
+
+        const index = queue.findIndex(request => request.client === client);
+        if (index >= 0)
+            queue.splice(index, 1);
+
+        if (flags & RequestNameFlag.ReplaceExisting && primary.flags & RequestNameFlag.AllowReplacement) {
+            // the replaced owner waits first in line, unless it asked not to
+            queue.splice(0, 1, {client, flags});
+            if (!(primary.flags & RequestNameFlag.DoNotQueue))
+                queue.splice(1, 0, primary);
+
+            this.changeOwner(name, primary.client, client);
+            return RequestNameReply.PrimaryOwner;
+        }
+
+        if (flags & RequestNameFlag.DoNotQueue)
+            return RequestNameReply.Exists;
+
+        queue.splice(index >= 0 ? index : queue.length, 0, {client, flags});
+        return RequestNameReply.InQueue;
+    }
+
+    private releaseName(client: Client, name: string): ReleaseNameReply {
+        if (!isWellKnownName(name))
+            throw new DBusError(ErrorName.InvalidArgs, `Cannot release the name ${name}`);
+
+        const queue = this.names.get(name);
+        if (!queue)
+            return ReleaseNameReply.NonExistent;
+
+        const index = queue.findIndex(request => request.client === client);
+        if (index < 0)
+            return ReleaseNameReply.NotOwner;
+
+        queue.splice(index, 1);
+        if (index === 0) {
+            if (!queue.length)
+                this.names.delete(name);
+
+            this.changeOwner(name, client, queue[0]?.client);
+        }
+
+        return ReleaseNameReply.Released;
+    }
+
+    private disconnect(client: Client): void {
+        if (!this.clients.delete(client) || !client.name)
+            return;
+
+        for (const [name, queue] of Array.from(this.names))
+            if (queue.some(request => request.client === client))
+                this.releaseName(client, name);
+
+        this.uniqueNames.delete(client.name);
+        this.emitSignal("NameOwnerChanged", "sss", [client.name, client.name, ""]);
+    }
+
+    /**
+     * Stop accepting clients and disconnect those connected
+     */
+    close(): Promise<void> {
+        return this.acceptor.close();
+    }
+
+    /**
+     * Start a bus listening on an address, such as unix:tmpdir=/tmp or tcp:host=localhost,port=0
+     */
+    static start(address: string = "unix:tmpdir=/tmp", options?: BrokerOptions): Promise<Broker> {
+        const result = new Broker();
+        return ConnectionAcceptor.listen(address, result.onConnection.bind(result), options).then(acceptor => {
+            result.acceptor = acceptor;
+            return result;
+        });
+    }
+}
@@ -0,0 +1,524 @@
+import {
+    type AnnotationDefinition,
+    type InterfaceDefinition,
+    type MethodArgumentDefinition,
+    type PropertyDefinition,
+    type SignalArgumentDefinition,
+    IntrospectionResult,
+    ensureArray,
+} from "./introspection";
+import {introspectableInterfaceName, peerInterfaceName, propertiesInterfaceName} from "./standard";
+
+export interface CodegenOptions {
+    // module the generated code imports this library from
+    importFrom?: string;
+
+    // names of the interfaces to generate code for, all of them if absent
+    interfaces?: ReadonlyArray<string>;
+
+    // whether to generate code for the interfaces every object implements, like org.freedesktop.DBus.Properties
+    includeStandard?: boolean;
+}
+
+const standardInterfaceNames = new Set([introspectableInterfaceName, peerInterfaceName, propertiesInterfaceName]);
+
+const scalarTypes: {[token: string]: string} = {
+    y: "number",
+    b: "boolean",
+    n: "number",
+    q: "number",
+    i: "number",
+    u: "number",
+    x: "bigint",
+    t: "bigint",
+    d: "number",
+    h: "number",
+    s: "string",
+    o: "string",
+    g: "string",
+};
+
+// Names of library types generated code refers to, collected to import only what's used
+type ImportedName =
+    | "Bus"
+    | "CallOptions"
+    | "InterfaceDeclaration"
+    | "InterfaceProxy"
+    | "ProxySignalListener"
+    | "Subscription"
+    | "Value"
+    | "Variant";
+
+class TypeMapper {
+    private index = 0;
+
+    constructor(private readonly signature: string, private readonly imports: Set<ImportedName>) {}
+
+    private fail(): never {
+        throw new Error(`Invalid DBus signature: ${this.signature}`);
+    }
+
+    private next(): string {
+        if (this.index >= this.signature.length)
+            this.fail();
+
+        return this.signature[this.index++];
+    }
+
+    map(): string {
+        const token = this.next();
+
+        const scalar = scalarTypes[token];
+        if (scalar)
+            return scalar;
+
+        switch (token) {
+        case "v":
+            this.imports.add("Variant");
+            return "Variant";
+
+        case "a":
+            return this.mapArray();
+
+        case "(": {
+            const fields = [];
+            while (this.signature[this.index] !== ")")
+                fields.push(this.map());
+
+            ++this.index;
+            if (!fields.length)
+                this.fail();
+
+            return `[${fields.join(", ")}]`;
+        }
+        }
+
+        return this.fail();
+    }
+
+    private mapArray(): string {
+        switch (this.signature[this.index]) {
+        case "y":
+            ++this.index;
+            return "Uint8Array";
+
+        case "{": {
+            ++this.index;
+            const key = this.map();
+            const value = this.map();
+            if (this.next() !== "}")
+                this.fail();
+
+            return `Map<${key}, ${value}>`;
+        }
+        }
+
+        const element = this.map();
+        return /^\w+$/.test(element) ? `${element}[]` : `Array<${element}>`;
+    }
+
+    mapAll(): string[] {
+        const result = [];
+        while (this.index < this.signature.length)
+            result.push(this.map());
+
+        return result;
+    }
+}
+
+/**
+ * Get the TypeScript type values of the given single complete type decode into
+ */
+export function signatureToType(signature: string): string {
+    return mapType(signature, new Set());
+}
+
+function mapType(signature: string, imports: Set<ImportedName>): string {
+    const result = new TypeMapper(signature, imports).mapAll();
+    if (result.length !== 1)
+        throw new Error(`DBus signature is not a single complete type: ${signature}`);
+
+    return result[0];
+}
+
+const reservedWords = new Set([
+    "arguments", "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do",
+    "else", "enum", "eval", "export", "extends", "false", "finally", "for", "function", "if", "implements",
+    "import", "in", "instanceof", "interface", "let", "new", "null", "options", "package", "private", "protected",
+    "public", "return", "static", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void",
+    "while", "with", "yield",
+]);
+
+// D-Bus argument names are free form, make them usable as parameters, "options" is taken by CallOptions
+function toIdentifier(name: string | undefined, position: number): string {
+    if (!name)
+        return `arg${position}`;
+
+    const result = name.replace(/[^\w$]/g, "_").replace(/^(\d)/, "_$1");
+    return reservedWords.has(result) ? `${result}_` : result;
+}
+
+function toPascalCase(name: string): string {
+    return name.split(/[^A-Za-z0-9]+/).map(p => p && p[0].toUpperCase() + p.slice(1)).join("");
+}
+
+function isDeprecated(annotations: AnnotationDefinition[] | undefined): boolean {
+    return ensureArray(annotations || null).some(a => a.name === "org.freedesktop.DBus.Deprecated" && a.value === "true");
+}
+
+function getAnnotation(annotations: AnnotationDefinition[] | undefined, name: string): string | undefined {
+    return ensureArray(annotations || null).find(a => a.name === name)?.value;
+}
+
+function formatDoc(lines: string[], indent: string): string {
+    if (!lines.length)
+        return "";
+
+    if (lines.length === 1)
+        return `${indent}/** ${lines[0]} */\n`;
+
+    return `${indent}/**\n${lines.map(l => l ? `${indent} * ${l}\n` : `${indent} *\n`).join("")}${indent} */\n`;
+}
+
+function quote(value: string): string {
+    return JSON.stringify(value);
+}
+
+interface Parameter {
+    name: string;
+    type: string;
+}
+
+function toParameters(args: ReadonlyArray<SignalArgumentDefinition>, imports: Set<ImportedName>): Parameter[] {
+    const names = new Set<string>();
+    return args.map((a, n) => {
+        let name = toIdentifier(a.name, n);
+        while (names.has(name))
+            name += "_";
+
+        names.add(name);
+        return {name, type: mapType(a.type, imports)};
+    });
+}
+
+function formatParameters(parameters: ReadonlyArray<Parameter>): string {
+    return parameters.map(p => `${p.name}: ${p.type}`).join(", ");
+}
+
+function formatResultType(outputs: ReadonlyArray<Parameter>): string {
+    switch (outputs.length) {
+    case 0:
+        return "void";
+
+    case 1:
+        return outputs[0].type;
+
+    default:
+        return `[${outputs.map(p => p.type).join(", ")}]`;
+    }
+}
+
+function formatArgumentDeclarations(parameters: ReadonlyArray<SignalArgumentDefinition>): string {
+    const items = parameters.map(p => p.name
+        ? `{name: ${quote(p.name)}, type: ${quote(p.type)}}`
+        : `{type: ${quote(p.type)}}`);
+
+    return `[${items.join(", ")}]`;
+}
+
+function formatEmitsChange(property: PropertyDefinition): string | undefined {
+    switch (getAnnotation(property.annotation, "org.freedesktop.DBus.Property.EmitsChangedSignal")) {
+    case "false":
+        return "false";
+
+    case "invalidates":
+        return "\"invalidates\"";
+
+    case "const":
+        return "\"const\"";
+    }
+
+    return undefined;
+}
+
+interface MethodDefinitionInfo {
+    name: string;
+    deprecated: boolean;
+    inputs: Parameter[];
+    outputs: Parameter[];
+    inputDefinitions: MethodArgumentDefinition[];
+    outputDefinitions: MethodArgumentDefinition[];
+}
+
+interface SignalDefinitionInfo {
+    name: string;
+    deprecated: boolean;
+    parameters: Parameter[];
+    definitions: SignalArgumentDefinition[];
+}
+
+interface PropertyDefinitionInfo {
+    definition: PropertyDefinition;
+    deprecated: boolean;
+    type: string;
+}
+
+class InterfaceGenerator {
+    private readonly typeName: string;
+    private readonly methods: MethodDefinitionInfo[];
+    private readonly signals: SignalDefinitionInfo[];
+    private readonly properties: PropertyDefinitionInfo[];
+
+    constructor(private readonly definition: InterfaceDefinition, private readonly imports: Set<ImportedName>) {
+        this.typeName = toPascalCase(definition.name);
+
+        this.methods = ensureArray(definition.method).map(m => {
+            const args = ensureArray<MethodArgumentDefinition>(m.arg);
+            const parameters = toParameters(args, imports);
+            return {
+                name: m.name,
+                deprecated: isDeprecated(m.annotation),
+                inputs: parameters.filter((_, n) => args[n].direction !== "out"),
+                outputs: parameters.filter((_, n) => args[n].direction === "out"),
+                inputDefinitions: args.filter(a => a.direction !== "out"),
+                outputDefinitions: args.filter(a => a.direction === "out"),
+            };
+        });
+
+        this.signals = ensureArray(definition.signal).map(s => {
+            const args = ensureArray(s.arg);
+            return {
+                name: s.name,
+                deprecated: isDeprecated(s.annotation),
+                parameters: toParameters(args, imports),
+                definitions: args,
+            };
+        });
+
+        this.properties = ensureArray(definition.property).map(p => ({
+            definition: p,
+            deprecated: isDeprecated(p.annotation),
+            type: mapType(p.type, imports),
+        }));
+    }
+
+    private get interfaceDeprecated(): boolean {
+        return isDeprecated(this.definition.annotation);
+    }
+
+    private docFor(deprecated: boolean, summary: string): string[] {
+        const lines = [summary];
+        if (deprecated)
+            lines.push("", "@deprecated");
+
+        return lines;
+    }
+
+    generateClient(): string {
+        const {definition, typeName, imports} = this;
+        imports.add("Bus");
+        imports.add("CallOptions");
+        imports.add("InterfaceProxy");
+
+        let members = "";
+        members += `    static readonly interfaceName = ${quote(definition.name)};\n\n`;
+        members += "    constructor(readonly proxy: InterfaceProxy) {}\n\n";
+        members += `    static connect(bus: Bus, service: string, path: string, options?: CallOptions): Promise<${typeName}Client> {\n`;
+        members += `        return bus.getProxy(service, path, ${typeName}Client.interfaceName, options)\n`;
+        members += `            .then(proxy => new ${typeName}Client(proxy));\n`;
+        members += "    }\n";
+
+        for (const method of this.methods) {
+            const parameters = [...method.inputs.map(p => `${p.name}: ${p.type}`), "options?: CallOptions"].join(", ");
+            const result = formatResultType(method.outputs);
+            const args = method.inputs.map(p => p.name).join(", ");
+
+            members += "\n";
+            members += formatDoc(this.docFor(method.deprecated, `Invoke ${method.name}`), "    ");
+            members += `    ${method.name}(${parameters}): Promise<${result}> {\n`;
+            members += `        return this.proxy.call(${quote(method.name)}, [${args}], options) as Promise<${result}>;\n`;
+            members += "    }\n";
+        }
+
+        if (this.signals.length) {
+            imports.add("ProxySignalListener");
+            imports.add("Subscription");
+        }
+
+        for (const signal of this.signals) {
+            members += "\n";
+            members += formatDoc(this.docFor(signal.deprecated, `Listen to ${signal.name}`), "    ");
+            members += `    on${signal.name}(listener: (${formatParameters(signal.parameters)}) => void): Subscription {\n`;
+            members += `        return this.proxy.connect(${quote(signal.name)}, listener as ProxySignalListener);\n`;
+            members += "    }\n";
+        }
+
+        for (const property of this.properties) {
+            const {name, access} = property.definition;
+            if (access !== "write") {
+                members += "\n";
+                members += formatDoc(this.docFor(property.deprecated, `Read ${name}`), "    ");
+                members += `    get${name}(options?: CallOptions): Promise<${property.type}> {\n`;
+                members += `        return this.proxy.getProperty(${quote(name)}, options) as Promise<${property.type}>;\n`;
+                members += "    }\n";
+            }
+
+            if (access !== "read") {
+                members += "\n";
+                members += formatDoc(this.docFor(property.deprecated, `Write ${name}`), "    ");
+                members += `    set${name}(value: ${property.type}, options?: CallOptions): Promise<void> {\n`;
+                members += `        return this.proxy.setProperty(${quote(name)}, value, options);\n`;
+                members += "    }\n";
+            }
+        }
+
+        const doc = formatDoc(this.docFor(this.interfaceDeprecated, `Client of ${definition.name}`), "");
+        return `${doc}export class ${typeName}Client {\n${members}}\n`;
+    }
+
+    generateImplementation(): string {
+        const {definition, typeName} = this;
+
+        let members = "";
+        for (const method of this.methods) {
+            const result = formatResultType(method.outputs);
+            members += formatDoc(this.docFor(method.deprecated, `Handle ${method.name}`), "    ");
+            members += `    ${method.name}(${formatParameters(method.inputs)}): ${result} | Promise<${result}>;\n`;
+        }
+
+        for (const property of this.properties) {
+            const {name, access} = property.definition;
+            if (access !== "write") {
+                members += formatDoc(this.docFor(property.deprecated, `Read ${name}`), "    ");
+                members += `    get${name}(): ${property.type} | Promise<${property.type}>;\n`;
+            }
+
+            if (access !== "read") {
+                members += formatDoc(this.docFor(property.deprecated, `Write ${name}`), "    ");
+                members += `    set${name}(value: ${property.type}): void | Promise<void>;\n`;
+            }
+        }
+
+        const doc = formatDoc(this.docFor(this.interfaceDeprecated, `Implementation of ${definition.name}`), "");
+        return `${doc}export interface ${typeName}Implementation {\n${members}}\n`;
+    }
+
+    generateDeclaration(): string {
+        const {definition, typeName, imports} = this;
+        imports.add("InterfaceDeclaration");
+
+        let methods = "";
+        for (const method of this.methods) {
+            const args = method.inputs.map(p => `${p.name} as ${p.type}`).join(", ");
+            if (method.inputs.length)
+                imports.add("Value");
+
+            methods += `            ${method.name}: {\n`;
+            if (method.inputs.length)
+                methods += `                inputs: ${formatArgumentDeclarations(method.inputDefinitions)},\n`;
+
+            if (method.outputs.length)
+                methods += `                outputs: ${formatArgumentDeclarations(method.outputDefinitions)},\n`;
+
+            const signature = method.inputs.length ? `(${method.inputs.map(p => `${p.name}: Value`).join(", ")})` : "()";
+            methods += `                handler: ${signature} => implementation.${method.name}(${args}),\n`;
+            methods += "            },\n";
+        }
+
+        let signals = "";
+        for (const signal of this.signals) {
+            const args = signal.definitions.length
+                ? `{arguments: ${formatArgumentDeclarations(signal.definitions)}}`
+                : "{}";
+
+            signals += `            ${signal.name}: ${args},\n`;
+        }
+
+        let properties = "";
+        for (const property of this.properties) {
+            const {name, type, access} = property.definition;
+            const emitsChange = formatEmitsChange(property.definition);
+
+            properties += `            ${name}: {\n`;
+            properties += `                type: ${quote(type)},\n`;
+            properties += `                access: ${quote(access)},\n`;
+            if (emitsChange)
+                properties += `                emitsChange: ${emitsChange},\n`;
+
+            if (access !== "write")
+                properties += `                get: () => implementation.get${name}(),\n`;
+
+            if (access !== "read") {
+                imports.add("Value");
+                properties += `                set: (value: Value) => implementation.set${name}(value as ${property.type}),\n`;
+            }
+
+            properties += "            },\n";
+        }
+
+        let body = `        name: ${quote(definition.name)},\n`;
+        if (methods)
+            body += `        methods: {\n${methods}        },\n`;
+
+        if (signals)
+            body += `        signals: {\n${signals}        },\n`;
+
+        if (properties)
+            body += `        properties: {\n${properties}        },\n`;
+
+        let result = formatDoc([`Declare ${definition.name} for Bus.exportObject, served by the given implementation`], "");
+        result += `export function declare${typeName}(implementation: ${typeName}Implementation): InterfaceDeclaration {\n`;
+        result += `    return {\n${body}    };\n`;
+        result += "}\n";
+        return result;
+    }
+}
+
+/**
+ * Generate a TypeScript module with a client proxy class, an implementation interface and a declaration
+ * function for each interface described
+ *
+ * @param sources introspection XML documents or their parsed results, interfaces are taken once by name
+ */
+export function generateTypeScript(
+    sources: ReadonlyArray<string | IntrospectionResult>,
+    options?: CodegenOptions,
+): string {
+    const wanted = options?.interfaces && new Set(options.interfaces);
+    const definitions = new Map<string, InterfaceDefinition>();
+
+    for (const source of sources) {
+        const result = typeof source === "string" ? IntrospectionResult.parse(source) : source;
+        for (const d of result.interfaces) {
+            if (definitions.has(d.name))
+                continue;
+
+            if (wanted ? !wanted.has(d.name) : !options?.includeStandard && standardInterfaceNames.has(d.name))
+                continue;
+
+            definitions.set(d.name, d);
+        }
+    }
+
+    if (wanted) {
+        for (const name of wanted)
+            if (!definitions.has(name))
+                throw new Error(`No interface ${name} in introspection data`);
+    }
+
+    const imports = new Set<ImportedName>();
+    const sections = [];
+    for (const d of definitions.values()) {
+        const generator = new InterfaceGenerator(d, imports);
+        sections.push(generator.generateClient(), generator.generateImplementation(), generator.generateDeclaration());
+    }
+
+    const importFrom = options?.importFrom || "dbusjs";
+    const names = [...imports].sort();
+
+    let result = "// Generated from D-Bus introspection data, changes will be lost when regenerated\n\n";
+    if (names.length)
+        result += `import type {${names.join(", ")}} from ${quote(importFrom)};\n\n`;
+
+    return result + sections.join("\n");
+}
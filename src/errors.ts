@@ -0,0 +1,98 @@
+import type {Reader} from "./message";
+import type {Value} from "./serialization";
+
+/**
+ * Error names defined by the reference implementation
+ */
+export enum ErrorName {
+    Failed = "org.freedesktop.DBus.Error.Failed",
+    NoMemory = "org.freedesktop.DBus.Error.NoMemory",
+    ServiceUnknown = "org.freedesktop.DBus.Error.ServiceUnknown",
+    NameHasNoOwner = "org.freedesktop.DBus.Error.NameHasNoOwner",
+    NoReply = "org.freedesktop.DBus.Error.NoReply",
+    IOError = "org.freedesktop.DBus.Error.IOError",
+    BadAddress = "org.freedesktop.DBus.Error.BadAddress",
+    NotSupported = "org.freedesktop.DBus.Error.NotSupported",
+    LimitsExceeded = "org.freedesktop.DBus.Error.LimitsExceeded",
+    AccessDenied = "org.freedesktop.DBus.Error.AccessDenied",
+    AuthFailed = "org.freedesktop.DBus.Error.AuthFailed",
+    NoServer = "org.freedesktop.DBus.Error.NoServer",
+    Timeout = "org.freedesktop.DBus.Error.Timeout",
+    NoNetwork = "org.freedesktop.DBus.Error.NoNetwork",
+    AddressInUse = "org.freedesktop.DBus.Error.AddressInUse",
+    Disconnected = "org.freedesktop.DBus.Error.Disconnected",
+    InvalidArgs = "org.freedesktop.DBus.Error.InvalidArgs",
+    FileNotFound = "org.freedesktop.DBus.Error.FileNotFound",
+    FileExists = "org.freedesktop.DBus.Error.FileExists",
+    UnknownMethod = "org.freedesktop.DBus.Error.UnknownMethod",
+    UnknownObject = "org.freedesktop.DBus.Error.UnknownObject",
+    UnknownInterface = "org.freedesktop.DBus.Error.UnknownInterface",
+    UnknownProperty = "org.freedesktop.DBus.Error.UnknownProperty",
+    PropertyReadOnly = "org.freedesktop.DBus.Error.PropertyReadOnly",
+    TimedOut = "org.freedesktop.DBus.Error.TimedOut",
+    MatchRuleNotFound = "org.freedesktop.DBus.Error.MatchRuleNotFound",
+    MatchRuleInvalid = "org.freedesktop.DBus.Error.MatchRuleInvalid",
+    SpawnExecFailed = "org.freedesktop.DBus.Error.Spawn.ExecFailed",
+    SpawnServiceNotFound = "org.freedesktop.DBus.Error.Spawn.ServiceNotFound",
+    UnixProcessIdUnknown = "org.freedesktop.DBus.Error.UnixProcessIdUnknown",
+    InvalidSignature = "org.freedesktop.DBus.Error.InvalidSignature",
+    InconsistentMessage = "org.freedesktop.DBus.Error.InconsistentMessage",
+    InteractiveAuthorizationRequired = "org.freedesktop.DBus.Error.InteractiveAuthorizationRequired",
+}
+
+/**
+ * An error reply received from, or to be sent to, the other end of a connection
+ */
+export class DBusError extends Error {
+    /**
+     * @param errorName the DBus error name, e.g. one of ErrorName
+     * @param message the human readable description carried as the first body value
+     * @param details the body values following the description
+     */
+    constructor(
+        readonly errorName: string,
+        message: string = "",
+        readonly details: ReadonlyArray<Value> = [],
+    ) {
+        super(message || errorName);
+        this.name = "DBusError";
+    }
+
+    static fromReply(reader: Reader, errorName: string): DBusError {
+        const body = reader.readBody();
+        if (typeof body[0] === "string")
+            return new DBusError(errorName, body[0], body.slice(1));
+
+        return new DBusError(errorName, "", body);
+    }
+}
+
+/**
+ * The reply to a call did not arrive in time, named like the reference implementation's equivalent
+ */
+export class TimeoutError extends DBusError {
+    constructor(readonly timeout: number) {
+        super(ErrorName.NoReply, `No reply within ${timeout}ms`);
+        this.name = "TimeoutError";
+    }
+}
+
+/**
+ * A received message breaks the wire format, after which the connection it came on is closed as the spec demands
+ */
+export class MalformedMessageError extends DBusError {
+    constructor(message: string) {
+        super(ErrorName.InconsistentMessage, message);
+        this.name = "MalformedMessageError";
+    }
+}
+
+/**
+ * The call was abandoned through its AbortSignal before a reply arrived
+ */
+export class CancelledError extends Error {
+    constructor(readonly reason?: unknown) {
+        super("Call cancelled");
+        this.name = "CancelledError";
+    }
+}
@@ -0,0 +1,113 @@
+import {MalformedMessageError} from "./errors";
+import {Endianness} from "./message";
+import {maxMessageSize} from "./validation";
+
+// The fixed part of every message header, up to and including the length of the header fields array
+const fixedHeaderSize = 16;
+
+/**
+ * Tell the full size of a message from its fixed header, found at offset in bytes
+ */
+function messageSize(bytes: Uint8Array, offset: number): number {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset, fixedHeaderSize);
+    const endianness = view.getUint8(0);
+    if (endianness !== Endianness.Little && endianness !== Endianness.Big)
+        throw new MalformedMessageError(`Invalid endianness mark ${endianness}`);
+
+    const littleEndian = endianness === Endianness.Little;
+    const bodySize = view.getUint32(4, littleEndian);
+    const headerFieldsSize = view.getUint32(12, littleEndian);
+
+    // the body starts aligned to 8, even when empty
+    const result = fixedHeaderSize + 8 * Math.ceil(headerFieldsSize / 8) + bodySize;
+    if (result > maxMessageSize)
+        throw new MalformedMessageError(`Message of ${result} bytes exceeds the ${maxMessageSize} bytes limit`);
+
+    return result;
+}
+
+// Where an assembled message starts, before its first bytes arrive
+const emptyBytes = new Uint8Array(0);
+
+/**
+ * Cuts the byte stream of a connection into messages, whatever the boundaries of the chunks it arrives in
+ *
+ * Messages fully within a chunk are views of it, others are assembled in a buffer growing as their bytes arrive,
+ * rather than to the size they claim up front. Neither is ever reused, so messages stay valid for as long as
+ * they're referenced.
+ */
+export class MessageFramer {
+    // the message being assembled, undefined between messages
+    private pending?: Uint8Array;
+
+    // how many bytes of pending arrived so far
+    private received = 0;
+
+    // the size of the message being assembled, 0 until its fixed header arrived
+    private size = 0;
+
+    /**
+     * Take the next chunk of the stream, returning the messages it completes
+     *
+     * Throws a MalformedMessageError if a message can't be framed, after which the stream can't be followed.
+     */
+    push(chunk: Uint8Array): DataView[] {
+        const result: DataView[] = [];
+        let offset = 0;
+
+        while (offset < chunk.length) {
+            if (this.pending) {
+                const expected = this.size || fixedHeaderSize;
+                const count = Math.min(expected - this.received, chunk.length - offset);
+                this.append(chunk.subarray(offset, offset + count));
+                offset += count;
+
+                if (this.received < expected)
+                    break;
+
+                if (!this.size) {
+                    // the size is now known, unless the message is no more than its fixed header
+                    this.size = messageSize(this.pending, 0);
+                    if (this.size > fixedHeaderSize)
+                        continue;
+                }
+
+                result.push(new DataView(this.pending.buffer, 0, this.size));
+                this.pending = undefined;
+                this.received = 0;
+                this.size = 0;
+                continue;
+            }
+
+            const available = chunk.length - offset;
+            if (available >= fixedHeaderSize) {
+                const size = messageSize(chunk, offset);
+                if (available >= size) {
+                    result.push(new DataView(chunk.buffer, chunk.byteOffset + offset, size));
+                    offset += size;
+                    continue;
+                }
+
+                this.size = size;
+            }
+
+            this.pending = emptyBytes;
+        }
+
+        return result;
+    }
+
+    // Add to the message being assembled, growing its buffer by doubling yet never past the size of the message
+    private append(bytes: Uint8Array): void {
+        let pending = this.pending!;
+        const needed = this.received + bytes.length;
+        if (needed > pending.length) {
+            const grown = new Uint8Array(Math.min(Math.max(needed, 2 * pending.length), this.size || fixedHeaderSize));
+            grown.set(pending.subarray(0, this.received));
+            this.pending = pending = grown;
+        }
+
+        pending.set(bytes, this.received);
+        this.received = needed;
+    }
+}
@@ -1,3 +1,34 @@
+export {
+    type AuthMethod,
+    type AuthOptions,
+    type AuthResult,
+    type ServerAuthOptions,
+    type ServerAuthResult,
+    anonymousAuth,
+    cookieSha1Auth,
+    externalAuth,
+    getDefaultAuthMethods,
+} from "./auth";
+
+export {
+    Broker,
+    type BrokerOptions,
+} from "./broker";
+
+export {
+    type CodegenOptions,
+    generateTypeScript,
+    signatureToType,
+} from "./codegen";
+
+export {
+    CancelledError,
+    DBusError,
+    ErrorName,
+    MalformedMessageError,
+    TimeoutError,
+} from "./errors";
+
 export {
     type InterfaceSpecification,
     type IntrospectionResult,
@@ -7,25 +38,103 @@ export {
 } from "./introspection";
 
 export {
+    type MatchMessageType,
+    MatchRule,
+    type MatchRuleFields,
+    type MessageListener,
+    type Subscription,
+} from "./match";
+
+export {
+    Message,
     Builder as MessageBuilder,
+    Endianness as MessageEndianness,
+    Flag as MessageFlag,
     Kind as MessageKind,
     Header as MessageHeader,
     Reader as MessageReader,
 } from "./message";
 
 export {
+    type ConnectionCredentials,
+    type NameListener,
+    type NameWatchCallbacks,
+    type NameWatcher,
+    ReleaseNameReply,
+    RequestNameFlag,
+    RequestNameReply,
+    StartServiceReply,
+} from "./names";
+
+export {
+    type PropertiesChangedListener,
+    type PropertyCache,
+    type PropertyOptions,
+} from "./properties";
+
+export {
+    type InterfaceProxy,
+    type ProxyMethod,
+    type ProxySignalListener,
+} from "./proxy";
+
+export {
+    type Codec,
     DataType,
+    type DeserializeOptions,
+    type Deserializer,
     type Serializer,
+    type Value,
+    Variant,
+    inferSignature,
     parseSignature,
 } from "./serialization";
 
+export {
+    type PeerListener,
+    Server,
+    type ServerOptions,
+} from "./server";
+
+export {
+    type ArgumentDeclaration,
+    type ExportedObject,
+    type InterfaceDeclaration,
+    type MethodDeclaration,
+    type MethodResult,
+    type PropertyAccess,
+    type PropertyDeclaration,
+    type SignalDeclaration,
+} from "./service";
+
 export {
     type Address,
-    type AuthMethod,
     type Bus,
+    type CallOptions,
+    type ConnectionOptions,
+    type NonceTcpAddress,
+    type SendOptions,
+    type SignalOptions,
+    type TcpAddress,
     type UnixDomainAbstractAddress,
     type UnixDomainPathAddress,
     type UnixDomainSocketAddress,
+    formatAddress,
+    openBus,
+    openPeer,
     parseAddress,
+    parseListenAddress,
     sessionBus,
+    splitAddresses,
+    starterBus,
+    systemBus,
 } from "./transport";
+
+export {
+    isValidBusName,
+    isValidErrorName,
+    isValidInterfaceName,
+    isValidMemberName,
+    isValidObjectPath,
+    isValidSignature,
+} from "./validation";
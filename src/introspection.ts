@@ -1,7 +1,7 @@
 import {XMLParser} from "fast-xml-parser";
 
 import {DataType} from ".";
-import {type Serializer, StructSerializer, parseSignature} from "./serialization";
+import {type Deserializer, type Serializer, StructSerializer, getBodyDeserializer, parseSignature} from "./serialization";
 
 export interface ValueSpecification {
     name: string;
@@ -29,7 +29,7 @@ function mapValueSpecifications<T extends SignalArgumentDefinition>(
     return result;
 }
 
-function ensureArray<T>(value: T | T[] | null): T[] {
+export function ensureArray<T>(value: T | T[] | null): T[] {
     if (!value)
         return [];
 
@@ -65,6 +65,16 @@ export class MethodSpecification {
 
         return this.argumentsSerializer;
     }
+
+    private resultsDeserializer?: Deserializer;
+    getResultsDeserializer(): Deserializer {
+        if (!this.resultsDeserializer) {
+            const signature = this.arguments.filter(a => a.read).map(a => a.type).join("");
+            this.resultsDeserializer = getBodyDeserializer(signature);
+        }
+
+        return this.resultsDeserializer;
+    }
 }
 
 export class SignalSpecification {
@@ -79,6 +89,14 @@ export class SignalSpecification {
     private static decorateArg(v: ValueSpecification): void {
         v.read = true;
     }
+
+    private argumentsDeserializer?: Deserializer;
+    getArgumentsDeserializer(): Deserializer {
+        if (!this.argumentsDeserializer)
+            this.argumentsDeserializer = getBodyDeserializer(this.arguments.map(a => a.type).join(""));
+
+        return this.argumentsDeserializer;
+    }
 }
 
 function mapProperty(d: PropertyDefinition): ValueSpecification {
@@ -136,38 +154,48 @@ export class InterfaceSpecification {
     }
 }
 
-interface SignalArgumentDefinition {
+export interface AnnotationDefinition {
+    name: string;
+    value: string;
+}
+
+export interface SignalArgumentDefinition {
     name: string;
     type: string;
 }
 
-interface PropertyDefinition extends SignalArgumentDefinition {
+export interface PropertyDefinition extends SignalArgumentDefinition {
     access: "read" | "write" | "readwrite";
+    annotation?: AnnotationDefinition[];
 }
 
-interface MethodArgumentDefinition extends SignalArgumentDefinition {
+export interface MethodArgumentDefinition extends SignalArgumentDefinition {
     direction: "in" | "out";
 }
 
-interface MethodDefinition {
+export interface MethodDefinition {
     name: string;
     arg: MethodArgumentDefinition[];
+    annotation?: AnnotationDefinition[];
 }
 
-interface SignalDefinition {
+export interface SignalDefinition {
     name: string;
     arg: SignalArgumentDefinition[];
+    annotation?: AnnotationDefinition[];
 }
 
-interface InterfaceDefinition {
+export interface InterfaceDefinition {
     name: string;
     method: MethodDefinition[];
     signal: SignalDefinition[];
     property: PropertyDefinition[];
+    annotation?: AnnotationDefinition[];
 }
 
-interface NodeDefinition {
+export interface NodeDefinition {
     interface: InterfaceDefinition[];
+    node?: {name: string}[];
 }
 
 interface IntrospectionXML {
@@ -183,7 +211,8 @@ export class IntrospectionResult {
     readonly interfaces: InterfaceDefinition[];
 
     private constructor(document: IntrospectionXML) {
-        this.interfaces = document.node.interface;
+        // a lone element is not parsed into an array
+        this.interfaces = ensureArray(document.node.interface);
     }
 
     getInterface(name: string): InterfaceSpecification | null {
@@ -196,3 +225,90 @@ export class IntrospectionResult {
         return new IntrospectionResult(doc);
     }
 }
+
+const xmlEntities: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    "\"": "&quot;",
+};
+
+function escapeXML(value: string): string {
+    return value.replace(/[&<>"]/g, c => xmlEntities[c]);
+}
+
+function formatAttributes(attributes: {[name: string]: string | undefined}): string {
+    let result = "";
+    for (const name of Object.keys(attributes)) {
+        const value = attributes[name];
+        if (value !== undefined)
+            result += ` ${name}="${escapeXML(value)}"`;
+    }
+
+    return result;
+}
+
+function formatAnnotations(annotations: AnnotationDefinition[] | undefined, indent: string): string {
+    let result = "";
+    for (const a of ensureArray(annotations || null))
+        result += `${indent}<annotation${formatAttributes({name: a.name, value: a.value})}/>\n`;
+
+    return result;
+}
+
+function formatElement(
+    tag: string,
+    attributes: {[name: string]: string | undefined},
+    content: string,
+    indent: string,
+): string {
+    const opening = `${indent}<${tag}${formatAttributes(attributes)}`;
+    return content ? `${opening}>\n${content}${indent}</${tag}>\n` : `${opening}/>\n`;
+}
+
+function formatMember(
+    tag: string,
+    d: MethodDefinition | SignalDefinition,
+    indent: string,
+): string {
+    const inner = indent + "  ";
+
+    let content = "";
+    for (const a of ensureArray<SignalArgumentDefinition & {direction?: string}>(d.arg))
+        content += formatElement("arg", {name: a.name, type: a.type, direction: a.direction}, "", inner);
+
+    content += formatAnnotations(d.annotation, inner);
+    return formatElement(tag, {name: d.name}, content, indent);
+}
+
+const doctype = `<!DOCTYPE node PUBLIC "-//freedesktop//DTD D-BUS Object Introspection 1.0//EN"
+ "http://www.freedesktop.org/standards/dbus/1.0/introspect.dtd">
+`;
+
+/**
+ * Produce introspection XML, the inverse of IntrospectionResult.parse
+ */
+export function formatIntrospection(node: NodeDefinition): string {
+    let content = "";
+    for (const i of ensureArray(node.interface)) {
+        let members = "";
+        for (const m of ensureArray(i.method))
+            members += formatMember("method", m, "    ");
+
+        for (const s of ensureArray(i.signal))
+            members += formatMember("signal", s, "    ");
+
+        for (const p of ensureArray(i.property)) {
+            const annotations = formatAnnotations(p.annotation, "      ");
+            members += formatElement("property", {name: p.name, type: p.type, access: p.access}, annotations, "    ");
+        }
+
+        members += formatAnnotations(i.annotation, "    ");
+        content += formatElement("interface", {name: i.name}, members, "  ");
+    }
+
+    for (const child of ensureArray(node.node || null))
+        content += formatElement("node", {name: child.name}, "", "  ");
+
+    return doctype + formatElement("node", {}, content, "");
+}
@@ -0,0 +1,331 @@
+import {DBusError, ErrorName} from "./errors";
+import {Header, Kind as MessageKind, type Reader} from "./message";
+import type {ScalarValue, Value} from "./serialization";
+
+export type MatchMessageType = "signal" | "method_call" | "method_return" | "error";
+
+const messageTypes: {[K in MatchMessageType]: MessageKind} = {
+    signal: MessageKind.Signal,
+    method_call: MessageKind.Call,
+    method_return: MessageKind.Return,
+    error: MessageKind.Error,
+};
+
+export interface MatchRuleFields {
+    type?: MatchMessageType;
+    sender?: string;
+    interface?: string;
+    member?: string;
+    path?: string;
+    pathNamespace?: string;
+    destination?: string;
+
+    // string arguments to match exactly, by position from 0 to 63
+    args?: {readonly [index: number]: string};
+
+    // string or object path arguments to match as paths, by position from 0 to 63
+    argPaths?: {readonly [index: number]: string};
+
+    // a bus name or interface name prefix the first argument must be in
+    arg0Namespace?: string;
+}
+
+/**
+ * Tells the well-known name owner of a sender, null if there's none or undefined if not known
+ */
+export interface NameResolver {
+    (name: string): string | null | undefined;
+}
+
+function quote(value: string): string {
+    return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// Split a rule into its keys and values, undoing the quoting
+function tokenize(text: string): Array<[string, string]> {
+    const result: Array<[string, string]> = [];
+    let position = 0;
+
+    while (position < text.length) {
+        const equals = text.indexOf("=", position);
+        if (equals < 0)
+            throw new DBusError(ErrorName.MatchRuleInvalid, `Missing value for ${text.slice(position)}`);
+
+        const key = text.slice(position, equals).trim();
+        let value = "";
+        let quoted = false;
+
+        for (position = equals + 1; position < text.length; ++position) {
+            const c = text[position];
+            if (c === "'")
+                quoted = !quoted;
+            else if (c === "\\" && !quoted && text[position + 1] === "'")
+                value += text[++position];
+            else if (c === "," && !quoted)
+                break;
+            else
+                value += c;
+        }
+
+        if (quoted)
+            throw new DBusError(ErrorName.MatchRuleInvalid, `Unterminated quote in value of ${key}`);
+
+        result.push([key, value]);
+        ++position;
+    }
+
+    return result;
+}
+
+function indices(values: {readonly [index: number]: string} | undefined): number[] {
+    if (!values)
+        return [];
+
+    const result = Object.keys(values).map(Number);
+    for (const n of result)
+        if (!Number.isInteger(n) || n < 0 || n > 63)
+            throw new Error(`Match rule argument index must be from 0 to 63, got ${n}`);
+
+    return result.sort((a, b) => a - b);
+}
+
+function isPathMatch(rule: string, value: string): boolean {
+    if (rule === value)
+        return true;
+
+    // either side ending with a slash matches anything under it
+    return rule.endsWith("/") && value.startsWith(rule) || value.endsWith("/") && rule.startsWith(value);
+}
+
+// Names that can only ever be the sender as is, the bus daemon sends as its well-known name
+function isLiteralName(name: string): boolean {
+    return name.startsWith(":") || name === "org.freedesktop.DBus";
+}
+
+export interface MessageListener {
+    (reader: Reader): void;
+}
+
+/**
+ * A registration of a listener for messages matching a rule
+ */
+export interface Subscription {
+    readonly rule: MatchRule;
+
+    // settles once the bus has been asked to route matching messages here
+    readonly ready: Promise<void>;
+
+    // stop listening, the bus is told to stop routing when no other subscription shares the rule
+    dispose(): Promise<void>;
+}
+
+/**
+ * Conditions a message must meet, as understood by org.freedesktop.DBus.AddMatch
+ */
+export class MatchRule {
+    readonly fields: Readonly<MatchRuleFields>;
+    private readonly argIndices: number[];
+    private readonly argPathIndices: number[];
+    private readonly text: string;
+
+    constructor(fields: MatchRuleFields) {
+        if (fields.path !== undefined && fields.pathNamespace !== undefined)
+            throw new Error("Match rule cannot have both path and path_namespace");
+
+        this.fields = {...fields};
+        this.argIndices = indices(fields.args);
+        this.argPathIndices = indices(fields.argPaths);
+        this.text = this.format();
+    }
+
+    /**
+     * Read a rule in the form AddMatch takes it, such as type='signal',member='Changed'
+     *
+     * Throws a DBusError named MatchRuleInvalid if the rule is not understood.
+     */
+    static parse(text: string): MatchRule {
+        const fields: MatchRuleFields = {};
+        const args: {[index: number]: string} = {};
+        const argPaths: {[index: number]: string} = {};
+
+        for (const [key, value] of tokenize(text)) {
+            const arg = /^arg(\d{1,2})(path|namespace)?$/.exec(key);
+            if (arg) {
+                const n = Number(arg[1]);
+                if (n > 63 || arg[2] === "namespace" && n !== 0)
+                    throw new DBusError(ErrorName.MatchRuleInvalid, `Unknown key ${key}`);
+
+                if (arg[2] === "namespace")
+                    fields.arg0Namespace = value;
+                else if (arg[2] === "path")
+                    argPaths[n] = value;
+                else
+                    args[n] = value;
+
+                continue;
+            }
+
+            switch (key) {
+            case "type":
+                if (!Object.prototype.hasOwnProperty.call(messageTypes, value))
+                    throw new DBusError(ErrorName.MatchRuleInvalid, `Unknown message type ${value}`);
+
+                fields.type = value as MatchMessageType;
+                break;
+
+            case "sender":
+            case "interface":
+            case "member":
+            case "path":
+            case "destination":
+                fields[key] = value;
+                break;
+
+            case "path_namespace":
+                fields.pathNamespace = value;
+                break;
+
+            // only meaningful to the bus, which is free to not honour it
+            case "eavesdrop":
+                break;
+
+            default:
+                throw new DBusError(ErrorName.MatchRuleInvalid, `Unknown key ${key}`);
+            }
+        }
+
+        if (Object.keys(args).length)
+            fields.args = args;
+
+        if (Object.keys(argPaths).length)
+            fields.argPaths = argPaths;
+
+        try {
+            return new MatchRule(fields);
+        } catch (e) {
+            throw new DBusError(ErrorName.MatchRuleInvalid, (e as Error).message);
+        }
+    }
+
+    private format(): string {
+        const {fields} = this;
+        const parts: string[] = [];
+        const add = (key: string, value: string | undefined) => {
+            if (value !== undefined)
+                parts.push(`${key}=${quote(value)}`);
+        };
+
+        add("type", fields.type);
+        add("sender", fields.sender);
+        add("interface", fields.interface);
+        add("member", fields.member);
+        add("path", fields.path);
+        add("path_namespace", fields.pathNamespace);
+        add("destination", fields.destination);
+
+        for (const n of this.argIndices)
+            add(`arg${n}`, fields.args![n]);
+
+        for (const n of this.argPathIndices)
+            add(`arg${n}path`, fields.argPaths![n]);
+
+        add("arg0namespace", fields.arg0Namespace);
+        return parts.join(",");
+    }
+
+    /**
+     * The well-known name that senders must own to match, if any
+     */
+    get wellKnownSender(): string | undefined {
+        const {sender} = this.fields;
+        return sender && !isLiteralName(sender) ? sender : undefined;
+    }
+
+    get hasArgumentConditions(): boolean {
+        return this.argIndices.length > 0 || this.argPathIndices.length > 0 || this.fields.arg0Namespace !== undefined;
+    }
+
+    /**
+     * Check a message against this rule
+     *
+     * @param headers header fields indexed by Header
+     * @param body supplies the decoded body, only called if the rule has conditions on arguments
+     * @param resolveName tells the owners of well-known names when the sender condition is one
+     */
+    matches(
+        kind: MessageKind,
+        headers: ReadonlyArray<ScalarValue | undefined>,
+        body: () => ReadonlyArray<Value>,
+        resolveName?: NameResolver,
+    ): boolean {
+        const {fields} = this;
+        if (fields.type !== undefined && messageTypes[fields.type] !== kind)
+            return false;
+
+        if (fields.sender !== undefined && !this.matchesSender(headers[Header.Sender] as string, resolveName))
+            return false;
+
+        if (fields.interface !== undefined && headers[Header.Interface] !== fields.interface)
+            return false;
+
+        if (fields.member !== undefined && headers[Header.Member] !== fields.member)
+            return false;
+
+        const path = headers[Header.Path] as string | undefined;
+        if (fields.path !== undefined && path !== fields.path)
+            return false;
+
+        if (fields.pathNamespace !== undefined) {
+            const namespace = fields.pathNamespace;
+            const inside = path !== undefined && (
+                namespace === "/" || path === namespace || path.startsWith(`${namespace}/`));
+
+            if (!inside)
+                return false;
+        }
+
+        if (fields.destination !== undefined && headers[Header.Destination] !== fields.destination)
+            return false;
+
+        return !this.hasArgumentConditions || this.matchesArguments(body());
+    }
+
+    private matchesSender(sender: string | undefined, resolveName?: NameResolver): boolean {
+        const expected = this.fields.sender!;
+        if (sender === expected)
+            return true;
+
+        if (isLiteralName(expected) || !resolveName)
+            return false;
+
+        // while the owner is not known yet, trust the bus to only deliver what was asked for
+        const owner = resolveName(expected);
+        return owner === undefined || owner === sender;
+    }
+
+    private matchesArguments(args: ReadonlyArray<Value>): boolean {
+        const {fields} = this;
+        for (const n of this.argIndices)
+            if (args[n] !== fields.args![n])
+                return false;
+
+        for (const n of this.argPathIndices) {
+            const value = args[n];
+            if (typeof value !== "string" || !isPathMatch(fields.argPaths![n], value))
+                return false;
+        }
+
+        if (fields.arg0Namespace !== undefined) {
+            const value = args[0];
+            const namespace = fields.arg0Namespace;
+            if (typeof value !== "string" || value !== namespace && !value.startsWith(`${namespace}.`))
+                return false;
+        }
+
+        return true;
+    }
+
+    toString(): string {
+        return this.text;
+    }
+}
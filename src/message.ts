@@ -1,12 +1,27 @@
-import {DataType} from ".";
+import {MalformedMessageError} from "./errors";
 import {
+    DataType,
+    DeserializeOptions,
+    Deserializer,
     Serializer,
     ScalarValue,
     Value,
     Writer,
+    getBodyDeserializer,
+    getTypeSerializer,
     getValueSerializer,
     signatureSerializer,
 } from "./serialization";
+import {
+    isValidBusName,
+    isValidErrorName,
+    isValidInterfaceName,
+    isValidMemberName,
+    isValidObjectPath,
+    isValidSignature,
+    maxMessageSize,
+    maxTotalNestingDepth,
+} from "./validation";
 
 export enum Kind {
     Invalid = 0,
@@ -27,22 +42,125 @@ export enum Header {
     Signature,
 }
 
+/**
+ * Byte order of a message, as marked by its first byte
+ */
+export enum Endianness {
+    Little = 108,
+    Big = 66,
+}
+
+export enum Flag {
+    NoReplyExpected = 0x1,
+    NoAutoStart = 0x2,
+    AllowInteractiveAuthorization = 0x4,
+}
+
 interface HeaderValue {
     type: DataType;
     value: ScalarValue;
 }
 
+const headerTypes: {[K in Header]: DataType} = {
+    [Header.Path]: DataType.ObjectPath,
+    [Header.Interface]: DataType.String,
+    [Header.Member]: DataType.String,
+    [Header.ErrorName]: DataType.String,
+    [Header.ReplySerial]: DataType.Unsigned32,
+    [Header.Destination]: DataType.String,
+    [Header.Sender]: DataType.String,
+    [Header.Signature]: DataType.TypeSignature,
+};
+
+const headerFormats: {[K in Header]?: [check: (value: string) => boolean, description: string]} = {
+    [Header.Path]: [isValidObjectPath, "object path"],
+    [Header.Interface]: [isValidInterfaceName, "interface name"],
+    [Header.Member]: [isValidMemberName, "member name"],
+    [Header.ErrorName]: [isValidErrorName, "error name"],
+    [Header.Destination]: [isValidBusName, "bus name"],
+    [Header.Sender]: [isValidBusName, "bus name"],
+    [Header.Signature]: [isValidSignature, "signature"],
+};
+
+const requiredHeaders: {[kind: number]: Header[]} = {
+    [Kind.Call]: [Header.Path, Header.Member],
+    [Kind.Return]: [Header.ReplySerial],
+    [Kind.Error]: [Header.ErrorName, Header.ReplySerial],
+    [Kind.Signal]: [Header.Path, Header.Interface, Header.Member],
+};
+
+function validateHeader(id: Header, value: ScalarValue): void {
+    const format = headerFormats[id];
+    if (format && !format[0](value as string))
+        throw new Error(`Invalid ${format[1]} in ${Header[id]} header: "${value}"`);
+
+    if (id === Header.ReplySerial && !value)
+        throw new Error("ReplySerial header cannot be 0");
+}
+
+function validateRequiredHeaders(kind: number, headers: ReadonlyArray<unknown>): void {
+    // types from later versions of the protocol require nothing known, receivers are to ignore them
+    for (const id of requiredHeaders[kind] || [])
+        if (headers[id] === undefined)
+            throw new Error(`${Kind[kind]} message is missing the ${Header[id]} header`);
+}
+
+// Writers kept between messages, so that building one doesn't take a new buffer each time
+const idleWriters: Writer[] = [];
+
+// Beyond this, a grown buffer is let go rather than held on to for the next message
+const maxIdleCapacity = 1 << 20;
+
+function takeWriter(littleEndian: boolean): Writer {
+    const result = idleWriters.pop() || new Writer();
+    result.reset(littleEndian);
+    return result;
+}
+
+function releaseWriter(writer: Writer): void {
+    if (writer.capacity <= maxIdleCapacity && idleWriters.length < 4)
+        idleWriters.push(writer);
+}
+
 export class Builder {
-    private readonly writer: Writer;
     private readonly headers: HeaderValue[] = [];
+    private flags: number = 0;
+    private serial: number = 0;
 
-    constructor(kind: Kind) {
-        this.writer = new Writer(new ArrayBuffer(256, {maxByteLength: 1 << 27}));
+    // an already encoded body, matching the Signature header
+    private body?: Uint8Array;
 
-        this.writer.writeByte(108); // little endian
-        this.writer.writeByte(kind);
-        this.writer.writeByte(0);
-        this.writer.writeByte(1); // protocol version 1
+    constructor(private readonly kind: Kind, private readonly endianness: Endianness = Endianness.Little) {
+        // do nothing
+    }
+
+    /**
+     * Start from a received message, keeping its flags, serial, header fields and body as they are
+     */
+    static from(reader: Reader): Builder {
+        // the body is kept in the byte order it was written in
+        const result = new Builder(reader.getKind(), reader.getEndianness());
+        result.flags = reader.getFlags();
+        result.serial = reader.getSerial();
+
+        const headers = reader.getHeaders();
+        for (let id = Header.Path; id <= Header.Signature; ++id) {
+            const value = headers[id];
+            if (value !== undefined)
+                result.headers[id] = {type: headerTypes[id], value};
+        }
+
+        const bodyStart = align(16 + reader.getHeaderFieldsSize(), 8);
+        const {view} = reader;
+        result.body = new Uint8Array(view.buffer, view.byteOffset + bodyStart, reader.getBodySize());
+        return result;
+    }
+
+    /**
+     * Turn one of the flags on, or off
+     */
+    setFlag(flag: Flag, enabled: boolean = true): void {
+        this.flags = enabled ? this.flags | flag : this.flags & ~flag;
     }
 
     setHeader(id: Header.Path, type: DataType.ObjectPath, value: string): void;
@@ -54,55 +172,113 @@ export class Builder {
     setHeader(id: Header.Sender, type: DataType.String, value: string): void;
     setHeader(id: Header.Signature, type: DataType.TypeSignature, value: string): void;
     setHeader(id: number, type: DataType, value: ScalarValue): void {
+        validateHeader(id, value);
         this.headers[id] = {type, value};
     }
 
-    private writeHeader(id: Header, type: DataType, value: ScalarValue) {
-        const serializer = getValueSerializer(type);
-        const required = 7 + 4 + serializer.estimateBytesLength(value);
-        const {buffer} = this.writer.view;
-        if (required > buffer.byteLength - this.writer.position)
-            buffer.resize(buffer.byteLength * 2);
-
-        this.writer.pad(8);
-        this.writer.writeByte(id);
-        signatureSerializer.serializeInto(this.writer, type);
-        serializer.serializeInto(this.writer, value);
-    }
-
     build(): ArrayBuffer;
     build(serializer: Serializer, values: ReadonlyArray<Value>): ArrayBuffer;
     build(serializer?: Serializer, values?: ReadonlyArray<Value>): ArrayBuffer {
-        this.writer.seek(16);
+        if (!requiredHeaders[this.kind])
+            throw new Error(`Unknown message type ${this.kind}`);
+
+        validateRequiredHeaders(this.kind, this.headers);
+
+        const writer = takeWriter(this.endianness === Endianness.Little);
+        try {
+            writer.writeByte(this.endianness);
+            writer.writeByte(this.kind);
+            writer.writeByte(this.flags);
+            writer.writeByte(1); // protocol version 1
+
+            // the sizes of the body and of the header fields array are filled in once known
+            writer.writeUInt32(0);
+            writer.writeUInt32(this.serial);
+            writer.writeUInt32(0);
+
+            for (let n = 1; n < this.headers.length; ++n) {
+                const header = this.headers[n];
+                if (header && !(serializer && n === Header.Signature))
+                    writeHeader(writer, n, header.type, header.value);
+            }
 
-        for (let n = 1; n < this.headers.length; ++n) {
-            const header = this.headers[n];
-            if (header)
-                this.writeHeader(n, header.type, header.value);
+            if (serializer)
+                writeHeader(
+                    writer,
+                    Header.Signature,
+                    DataType.TypeSignature,
+                    serializer.signature.slice(1, serializer.signature.length - 1));
+
+            writer.view.setUint32(12, writer.position - 16, writer.littleEndian);
+
+            // the body starts aligned to 8, even when empty
+            const bodyStart = writer.pad(8);
+            if (serializer)
+                serializer.serializeInto(writer, values!);
+            else if (this.body)
+                writer.append(this.body);
+
+            writer.view.setUint32(4, writer.position - bodyStart, writer.littleEndian);
+            return writer.cloneData();
+        } finally {
+            releaseWriter(writer);
         }
+    }
+}
 
-        if (serializer)
-            this.writeHeader(
-                Header.Signature,
-                DataType.TypeSignature,
-                serializer.signature.slice(1, serializer.signature.length - 1));
-
-        // header fields array size is always aligned at 12
-        this.writer.view.setUint32(12, this.writer.position - 16, true);
-
-        // must ensure body is aligned to 8 bytes
-        // this padding like with arrays, is always necessary
-        const bodyStart = this.writer.pad(8);
-        if (serializer) {
-            const bodySize = serializer.estimateBytesLength(values!);
-            this.writer.view.buffer.resize(this.writer.position + bodySize);
-            serializer.serializeInto(this.writer, values!);
-            this.writer.view.setUint32(4, this.writer.position - bodyStart, true);
-        } else {
-            this.writer.view.setUint32(4, 0, true);
-        }
+function writeHeader(writer: Writer, id: Header, type: DataType, value: ScalarValue): void {
+    writer.pad(8);
+    writer.writeByte(id);
+    signatureSerializer.serializeInto(writer, type);
+    getValueSerializer(type).serializeInto(writer, value);
+}
 
-        return this.writer.cloneData();
+/**
+ * A received message with its header fields and body decoded, as Reader.getMessage gives it
+ */
+export class Message {
+    readonly kind: Kind;
+    readonly endianness: Endianness;
+    readonly flags: number;
+    readonly serial: number;
+    readonly path?: string;
+    readonly interface?: string;
+    readonly member?: string;
+    readonly errorName?: string;
+    readonly replySerial?: number;
+    readonly destination?: string;
+    readonly sender?: string;
+    readonly signature: string;
+    readonly body: ReadonlyArray<Value>;
+
+    constructor(reader: Reader) {
+        const headers = reader.getHeaders();
+        this.kind = reader.getKind();
+        this.endianness = reader.getEndianness();
+        this.flags = reader.getFlags();
+        this.serial = reader.getSerial();
+        this.path = headers[Header.Path] as string | undefined;
+        this.interface = headers[Header.Interface] as string | undefined;
+        this.member = headers[Header.Member] as string | undefined;
+        this.errorName = headers[Header.ErrorName] as string | undefined;
+        this.replySerial = headers[Header.ReplySerial] as number | undefined;
+        this.destination = headers[Header.Destination] as string | undefined;
+        this.sender = headers[Header.Sender] as string | undefined;
+        this.signature = headers[Header.Signature] as string || "";
+        this.body = Object.freeze(reader.readBody());
+        Object.freeze(this);
+    }
+
+    get noReplyExpected(): boolean {
+        return !!(this.flags & Flag.NoReplyExpected);
+    }
+
+    get noAutoStart(): boolean {
+        return !!(this.flags & Flag.NoAutoStart);
+    }
+
+    get allowInteractiveAuthorization(): boolean {
+        return !!(this.flags & Flag.AllowInteractiveAuthorization);
     }
 }
 
@@ -110,93 +286,304 @@ function align(offset: number, size: number): number {
     return size * Math.trunc((offset + size - 1) / size);
 }
 
-const utf8Decoder = new TextDecoder("utf8");
+// strings must be valid UTF-8, a byte order mark included is part of the string
+const utf8Decoder = new TextDecoder("utf8", {fatal: true, ignoreBOM: true});
 
 export class Reader {
     private offset: number = 16;
 
+    // the body as decoded while validating, by its Signature header
+    private body?: ReadonlyArray<Value>;
+
+    private message?: Message;
+
+    private readonly littleEndian: boolean;
+
+    // how many containers, variants included, the value being decoded is within
+    private depth = 0;
+
     constructor(readonly view: DataView) {
-        // do nothing
+        this.littleEndian = view.byteLength === 0 || view.getUint8(0) !== Endianness.Big;
     }
 
     get position(): number {
         return this.offset;
     }
 
+    getEndianness(): Endianness {
+        return this.littleEndian ? Endianness.Little : Endianness.Big;
+    }
+
     getKind(): Kind {
         return this.view.getUint8(1);
     }
 
+    getFlags(): number {
+        return this.view.getUint8(2);
+    }
+
+    getSerial(): number {
+        return this.view.getUint32(8, this.littleEndian);
+    }
+
     getHeaderFieldsSize(): number {
-        return this.view.getUint32(12, true);
+        return this.view.getUint32(12, this.littleEndian);
     }
 
     getBodySize(): number {
-        return this.view.getUint32(4, true);
+        return this.view.getUint32(4, this.littleEndian);
     }
 
-    getReplySerial(): number {
-        const limit = this.getHeaderFieldsSize();
-        for (let n = 16; n < limit; n = align(n, 8)) {
-            const id = this.view.getUint8(n);
-            const type = this.view.getUint8(n + 2);
-            n += 4;
-
-            switch (type) {
-            case 115: // DataType.String
-            case 111: // DataType.ObjectPath
-                n += 5 + this.view.getUint32(n, true);
-                break;
-    
-            case 117: // DataType.Unsigned32
-                if (id === Header.ReplySerial)
-                    return this.view.getUint32(n, true);
-
-                n += 4;
-                break;
-    
-            case 103: // DataType.TypeSignature
-                n += 2 + this.view.getUint8(n);
-                break;
-
-            default:
-                throw new Error("Unrecognized header data type");
+    getHeader(id: Header): ScalarValue | undefined {
+        const position = this.offset;
+        const limit = 16 + this.getHeaderFieldsSize();
+
+        try {
+            for (this.offset = 16; this.offset < limit;) {
+                const [candidate,, value] = this.readHeaderField();
+                if (candidate === id)
+                    return value as ScalarValue;
+            }
+        } finally {
+            this.offset = position;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Read all header fields at once, indexed by their Header
+     */
+    getHeaders(): Array<ScalarValue | undefined> {
+        const position = this.offset;
+        const limit = 16 + this.getHeaderFieldsSize();
+        const result: Array<ScalarValue | undefined> = [];
+
+        try {
+            for (this.offset = 16; this.offset < limit;) {
+                const [id,, value] = this.readHeaderField();
+                result[id] = value as ScalarValue;
+            }
+        } finally {
+            this.offset = position;
+        }
+
+        return result;
+    }
+
+    /**
+     * Check the framing, the header fields and the body against the protocol
+     *
+     * Throws a MalformedMessageError describing the first violation found.
+     */
+    validate(): void {
+        if (this.view.byteLength < 16)
+            throw new MalformedMessageError("Message shorter than its fixed header");
+
+        const endianness = this.view.getUint8(0);
+        if (endianness !== Endianness.Little && endianness !== Endianness.Big)
+            throw new MalformedMessageError(`Invalid endianness mark ${endianness}`);
+
+        if (this.view.getUint8(3) !== 1)
+            throw new MalformedMessageError(`Unsupported protocol version ${this.view.getUint8(3)}`);
+
+        if (this.getKind() === Kind.Invalid)
+            throw new MalformedMessageError("Invalid message type 0");
+
+        if (!this.getSerial())
+            throw new MalformedMessageError("Message serial cannot be 0");
+
+        const headerFieldsSize = this.getHeaderFieldsSize();
+        const size = align(16 + headerFieldsSize, 8) + this.getBodySize();
+        if (size > maxMessageSize)
+            throw new MalformedMessageError(`Message of ${size} bytes exceeds the ${maxMessageSize} bytes limit`);
+
+        if (size !== this.view.byteLength)
+            throw new MalformedMessageError(`Message of ${this.view.byteLength} bytes claims to be of ${size} bytes`);
+
+        const position = this.offset;
+        const headers: ScalarValue[] = [];
+
+        try {
+            for (this.offset = 16; this.offset < 16 + headerFieldsSize;) {
+                const [id, type, value] = this.readHeaderField();
+                if (id in headerTypes) {
+                    if (type !== headerTypes[id as Header])
+                        throw new Error(`${Header[id]} header must be of type ${headerTypes[id as Header]}, got ${type}`);
+
+                    validateHeader(id, value as ScalarValue);
+                }
+
+                headers[id] = value as ScalarValue;
             }
+
+            if (this.offset !== 16 + headerFieldsSize)
+                throw new Error("Header fields overrun their array");
+
+            validateRequiredHeaders(this.getKind(), headers);
+
+            this.skipToBody();
+            this.body = getBodyDeserializer(headers[Header.Signature] as string || "").deserializeFrom(this) as ReadonlyArray<Value>;
+            if (this.offset !== this.view.byteLength)
+                throw new Error(`Body has ${this.view.byteLength - this.offset} bytes left over after its values`);
+        } catch (e) {
+            if (e instanceof MalformedMessageError)
+                throw e;
+
+            throw new MalformedMessageError((e as Error).message);
+        } finally {
+            this.offset = position;
         }
+    }
+
+    /**
+     * The whole message decoded, the same object on every call
+     */
+    getMessage(): Message {
+        if (!this.message)
+            this.message = new Message(this);
+
+        return this.message;
+    }
+
+    getReplySerial(): number {
+        return this.getHeader(Header.ReplySerial) as number || 0;
+    }
+
+    getSignature(): string {
+        return this.getHeader(Header.Signature) as string || "";
+    }
+
+    /**
+     * Decode the whole body, by default according to the message's Signature header
+     */
+    readBody(deserializer?: Deserializer, options?: DeserializeOptions): ReadonlyArray<Value> {
+        if (this.body && !deserializer && !options) {
+            this.offset = this.view.byteLength;
+            return this.body;
+        }
+
+        this.skipToBody();
+        if (!deserializer)
+            deserializer = getBodyDeserializer(this.getSignature());
+
+        return deserializer.deserializeFrom(this, options) as ReadonlyArray<Value>;
+    }
+
+    /**
+     * Go into a container while decoding, failing beyond the nesting the spec allows
+     *
+     * Each call must be followed by one of leaveContainer, even when this throws.
+     */
+    enterContainer(): void {
+        if (++this.depth > maxTotalNestingDepth)
+            throw new MalformedMessageError(`Values nested more than ${maxTotalNestingDepth} deep`);
+    }
+
+    leaveContainer(): void {
+        --this.depth;
+    }
 
-        return 0;
+    // Make sure the next bytes are there to read
+    private need(bytes: number): void {
+        if (this.offset + bytes > this.view.byteLength)
+            throw new MalformedMessageError(`Message truncated, ${bytes} bytes needed at offset ${this.offset}`);
     }
 
     readUint8(): number {
+        this.need(1);
         const result = this.view.getUint8(this.offset);
         ++this.offset;
         return result;
     }
 
+    readInt16(): number {
+        this.align(2);
+        this.need(2);
+        const result = this.view.getInt16(this.offset, this.littleEndian);
+        this.offset += 2;
+        return result;
+    }
+
     readUint16(): number {
         this.align(2);
-        const result = this.view.getUint16(this.offset, true);
+        this.need(2);
+        const result = this.view.getUint16(this.offset, this.littleEndian);
         this.offset += 2;
         return result;
     }
 
+    readInt32(): number {
+        this.align(4);
+        this.need(4);
+        const result = this.view.getInt32(this.offset, this.littleEndian);
+        this.offset += 4;
+        return result;
+    }
+
     readUint32(): number {
         this.align(4);
-        const result = this.view.getUint32(this.offset, true);
+        this.need(4);
+        const result = this.view.getUint32(this.offset, this.littleEndian);
         this.offset += 4;
         return result;
     }
 
+    readInt64(): bigint {
+        this.align(8);
+        this.need(8);
+        const result = this.view.getBigInt64(this.offset, this.littleEndian);
+        this.offset += 8;
+        return result;
+    }
+
     readUint64(): bigint {
         this.align(8);
-        const result = this.view.getBigUint64(this.offset, true);
+        this.need(8);
+        const result = this.view.getBigUint64(this.offset, this.littleEndian);
         this.offset += 8;
         return result;
     }
 
-    private decodeString(length: number): string {
+    readDouble(): number {
+        this.align(8);
+        this.need(8);
+        const result = this.view.getFloat64(this.offset, this.littleEndian);
+        this.offset += 8;
+        return result;
+    }
+
+    readBool(): boolean {
+        const value = this.readUint32();
+        if (value > 1)
+            throw new MalformedMessageError(`Invalid boolean value ${value}`);
+
+        return value === 1;
+    }
+
+    readBytes(length: number): Uint8Array {
+        this.need(length);
         const offset = this.view.byteOffset + this.offset;
-        const result = utf8Decoder.decode(new Uint8Array(this.view.buffer, offset, length));
+        this.offset += length;
+        return new Uint8Array(this.view.buffer.slice(offset, offset + length));
+    }
+
+    private decodeString(length: number): string {
+        this.need(length + 1);
+        const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length + 1);
+        if (bytes[length] !== 0)
+            throw new MalformedMessageError(`String at offset ${this.offset} is not nul terminated`);
+
+        if (bytes.indexOf(0) !== length)
+            throw new MalformedMessageError(`String at offset ${this.offset} contains a nul byte`);
+
+        let result: string;
+        try {
+            result = utf8Decoder.decode(bytes.subarray(0, length));
+        } catch {
+            throw new MalformedMessageError(`String at offset ${this.offset} is not valid UTF-8`);
+        }
+
         this.offset += length + 1;
         return result;
     }
@@ -209,7 +596,10 @@ export class Reader {
         return this.decodeString(this.readUint8());
     }
 
-    readHeaderField(): [id: number, type: DataType, value: ScalarValue] {
+    /**
+     * Read a header field, fields not known to the protocol may be of any single complete type
+     */
+    readHeaderField(): [id: number, type: string, value: Value] {
         this.align(8);
         const id = this.readUint8();
         const type = this.readSignature();
@@ -225,11 +615,28 @@ export class Reader {
             return [id, type, this.readSignature()];
         }
 
-        throw new Error("Unrecognized header data type");
+        let serializer: Deserializer;
+        try {
+            serializer = getTypeSerializer(type);
+        } catch (e) {
+            throw new MalformedMessageError(`Invalid type of header field ${id}: ${(e as Error).message}`);
+        }
+
+        return [id, type, serializer.deserializeFrom(this)];
     }
 
+    /**
+     * Skip to the next multiple of size, over padding that must be zero
+     */
     align(size: number): void {
-        this.offset = align(this.offset, size);
+        const next = align(this.offset, size);
+        if (next === this.offset)
+            return;
+
+        this.need(next - this.offset);
+        for (; this.offset < next; ++this.offset)
+            if (this.view.getUint8(this.offset) !== 0)
+                throw new MalformedMessageError(`Non-zero padding byte at offset ${this.offset}`);
     }
 
     skipToBody(): void {
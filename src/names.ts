@@ -0,0 +1,143 @@
+import type {Subscription} from "./match";
+import type {Value, Variant} from "./serialization";
+import type {Bus} from "./transport";
+
+/**
+ * Flags of org.freedesktop.DBus.RequestName
+ */
+export enum RequestNameFlag {
+    // let another connection take the name over by requesting it with ReplaceExisting
+    AllowReplacement = 1,
+
+    // take the name over from its owner, if the owner allows it
+    ReplaceExisting = 2,
+
+    // fail rather than wait in the queue for the name
+    DoNotQueue = 4,
+}
+
+export enum RequestNameReply {
+    PrimaryOwner = 1,
+    InQueue = 2,
+    Exists = 3,
+    AlreadyOwner = 4,
+}
+
+export enum ReleaseNameReply {
+    Released = 1,
+    NonExistent = 2,
+    NotOwner = 3,
+}
+
+export enum StartServiceReply {
+    Success = 1,
+    AlreadyRunning = 2,
+}
+
+/**
+ * What the bus knows of the process behind a connection, as told by GetConnectionCredentials
+ */
+export interface ConnectionCredentials {
+    unixUserID?: number;
+    unixGroupIDs?: number[];
+    processID?: number;
+    windowsSID?: string;
+    linuxSecurityLabel?: Uint8Array;
+}
+
+const credentialKeys: {[key: string]: keyof ConnectionCredentials} = {
+    UnixUserID: "unixUserID",
+    UnixGroupIDs: "unixGroupIDs",
+    ProcessID: "processID",
+    WindowsSID: "windowsSID",
+    LinuxSecurityLabel: "linuxSecurityLabel",
+};
+
+/**
+ * Pick the known credentials out of a GetConnectionCredentials reply, leaving out those not understood
+ */
+export function parseCredentials(values: ReadonlyMap<string, Variant>): ConnectionCredentials {
+    const result: {[K in keyof ConnectionCredentials]: Value} = {};
+    for (const [key, value] of values) {
+        const name = credentialKeys[key];
+        if (name)
+            result[name] = value.value;
+    }
+
+    return result as ConnectionCredentials;
+}
+
+export interface NameListener {
+    (name: string): void;
+}
+
+export interface NameWatchCallbacks {
+    // the name got an owner, or changed hands
+    appeared?(name: string, owner: string): void;
+
+    // the name lost its owner, or changed hands
+    vanished?(name: string): void;
+}
+
+/**
+ * Follows the ownership of a well-known name on the bus
+ */
+export class NameWatcher {
+    private current?: string | null;
+    private readonly subscription: Subscription;
+
+    // settles once the initial owner is known
+    readonly ready: Promise<void>;
+
+    constructor(bus: Bus, readonly name: string, private readonly callbacks: NameWatchCallbacks) {
+        this.subscription = bus.subscribe({
+            type: "signal",
+            sender: "org.freedesktop.DBus",
+            interface: "org.freedesktop.DBus",
+            member: "NameOwnerChanged",
+            args: {0: name},
+        }, reader => {
+            const [,, owner] = reader.readBody();
+            this.update(owner as string || null);
+        });
+
+        // a NameOwnerChanged arriving first is more recent
+        this.ready = this.subscription.ready
+            .then(() => bus.getNameOwner(name))
+            .then(owner => {
+                if (this.current === undefined)
+                    this.update(owner);
+            });
+
+        this.ready.catch(() => undefined);
+    }
+
+    /**
+     * The unique name of the current owner, null if there's none or undefined until known
+     */
+    get owner(): string | null | undefined {
+        return this.current;
+    }
+
+    private update(owner: string | null): void {
+        const previous = this.current;
+        if (owner === previous)
+            return;
+
+        this.current = owner;
+
+        // a name without an owner from the start is reported as vanished too
+        if (previous || previous === undefined && !owner)
+            this.callbacks.vanished?.(this.name);
+
+        if (owner)
+            this.callbacks.appeared?.(this.name, owner);
+    }
+
+    /**
+     * Stop following the name
+     */
+    close(): Promise<void> {
+        return this.subscription.dispose();
+    }
+}
@@ -0,0 +1,181 @@
+import {DBusError, ErrorName} from "./errors";
+import type {InterfaceSpecification, ValueSpecification} from "./introspection";
+import type {Subscription} from "./match";
+import type {Reader} from "./message";
+import {type Value, Variant} from "./serialization";
+import {propertiesInterfaceName} from "./standard";
+import type {Bus, CallOptions} from "./transport";
+
+export interface PropertyOptions extends CallOptions {
+    // an introspected description of the interface to validate property names, access and types against
+    specification?: InterfaceSpecification;
+}
+
+/**
+ * Find the specification of a property, making sure it can be accessed as intended
+ */
+export function requirePropertySpecification(
+    specification: InterfaceSpecification,
+    iface: string,
+    name: string,
+    access: "read" | "write",
+): ValueSpecification {
+    const result = specification.getProperty(name);
+    if (!result)
+        throw new DBusError(ErrorName.UnknownProperty, `No property ${name} in ${iface}`);
+
+    if (access === "read" && !result.read)
+        throw new DBusError(ErrorName.AccessDenied, `Property ${name} of ${iface} is not readable`);
+
+    if (access === "write" && !result.write)
+        throw new DBusError(ErrorName.PropertyReadOnly, `Property ${name} of ${iface} is not writable`);
+
+    return result;
+}
+
+/**
+ * Unwrap the variant holding a property value, making sure it's of the type specified if any
+ */
+export function unwrapProperty(value: Value, specification?: ValueSpecification): Value {
+    const variant = value as Variant;
+    if (specification && variant.signature !== specification.type) {
+        throw new DBusError(
+            ErrorName.InvalidSignature,
+            `Property ${specification.name} should be "${specification.type}" but got "${variant.signature}"`);
+    }
+
+    return variant.value;
+}
+
+/**
+ * Wrap a property value to be set into a variant, using the specified type if any
+ */
+export function wrapProperty(value: Value, specification?: ValueSpecification): Variant {
+    if (specification) {
+        if (value instanceof Variant) {
+            if (value.signature !== specification.type) {
+                throw new DBusError(
+                    ErrorName.InvalidArgs,
+                    `Property ${specification.name} is "${specification.type}" but got "${value.signature}"`);
+            }
+
+            return value;
+        }
+
+        return new Variant(specification.type, value);
+    }
+
+    return Variant.infer(value);
+}
+
+export interface PropertiesChangedListener {
+    (changed: ReadonlyMap<string, Value>, invalidated: ReadonlyArray<string>): void;
+}
+
+/**
+ * A local copy of the properties of an interface of a remote object, kept up to date with PropertiesChanged
+ */
+export class PropertyCache {
+    private readonly values = new Map<string, Value>();
+    private readonly listeners = new Set<PropertiesChangedListener>();
+    private readonly subscription: Subscription;
+
+    constructor(
+        private readonly bus: Bus,
+        readonly service: string,
+        readonly path: string,
+        readonly iface: string,
+    ) {
+        this.subscription = bus.subscribe({
+            type: "signal",
+            sender: service || undefined,
+            path,
+            interface: propertiesInterfaceName,
+            member: "PropertiesChanged",
+            args: {0: iface},
+        }, this.onPropertiesChanged.bind(this));
+    }
+
+    /**
+     * Settles once changes are being tracked
+     */
+    get ready(): Promise<void> {
+        return this.subscription.ready;
+    }
+
+    private onPropertiesChanged(reader: Reader): void {
+        // anyone can send a signal by that name, only the standard arguments are of use
+        if (reader.getSignature() !== "sa{sv}as")
+            return;
+
+        const [, changed, invalidated] = reader.readBody();
+
+        const values = new Map<string, Value>();
+        for (const [name, value] of changed as Map<string, Variant>)
+            values.set(name, value.value);
+
+        this.update(values, invalidated as string[]);
+    }
+
+    /**
+     * Get the cached value of a property, which is absent until fetched again after being invalidated
+     */
+    get(name: string): Value | undefined {
+        return this.values.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.values.has(name);
+    }
+
+    entries(): IterableIterator<[string, Value]> {
+        return this.values.entries();
+    }
+
+    /**
+     * Read a property from the remote object and cache its value
+     */
+    fetch(name: string, options?: CallOptions): Promise<Value> {
+        return this.bus.getProperty(this.service, this.path, this.iface, name, options).then(value => {
+            this.values.set(name, value);
+            return value;
+        });
+    }
+
+    /**
+     * Read all properties from the remote object, replacing everything cached
+     */
+    refresh(options?: CallOptions): Promise<void> {
+        return this.bus.getAllProperties(this.service, this.path, this.iface, options).then(values => {
+            this.values.clear();
+            for (const [name, value] of values)
+                this.values.set(name, value);
+        });
+    }
+
+    addListener(listener: PropertiesChangedListener): void {
+        this.listeners.add(listener);
+    }
+
+    removeListener(listener: PropertiesChangedListener): void {
+        this.listeners.delete(listener);
+    }
+
+    private update(changed: ReadonlyMap<string, Value>, invalidated: ReadonlyArray<string>): void {
+        for (const [name, value] of changed)
+            this.values.set(name, value);
+
+        for (const name of invalidated)
+            this.values.delete(name);
+
+        for (const listener of this.listeners)
+            listener(changed, invalidated);
+    }
+
+    /**
+     * Stop tracking changes
+     */
+    close(): Promise<void> {
+        return this.subscription.dispose();
+    }
+}
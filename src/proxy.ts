@@ -0,0 +1,113 @@
+import {DBusError, ErrorName} from "./errors";
+import type {InterfaceSpecification, MethodSpecification} from "./introspection";
+import type {Subscription} from "./match";
+import type {Value} from "./serialization";
+import type {Bus, CallOptions} from "./transport";
+
+/**
+ * Invokes a remote method with its input arguments, optionally followed by CallOptions
+ *
+ * Resolves to nothing, the only output argument, or an array of output arguments.
+ */
+export interface ProxyMethod {
+    (...args: Value[]): Promise<Value | ReadonlyArray<Value> | undefined>;
+    (...args: [...Value[], CallOptions]): Promise<Value | ReadonlyArray<Value> | undefined>;
+}
+
+export interface ProxySignalListener {
+    (...args: Value[]): void;
+}
+
+function unpackResults(results: ReadonlyArray<Value>): Value | ReadonlyArray<Value> | undefined {
+    switch (results.length) {
+    case 0:
+        return undefined;
+
+    case 1:
+        return results[0];
+
+    default:
+        return results;
+    }
+}
+
+/**
+ * An interface of a remote object, with its methods, signals and properties as described by introspection
+ */
+export class InterfaceProxy {
+    readonly methods: {readonly [name: string]: ProxyMethod};
+
+    constructor(
+        private readonly bus: Bus,
+        readonly service: string,
+        readonly path: string,
+        readonly iface: string,
+        readonly specification: InterfaceSpecification,
+    ) {
+        const methods: {[name: string]: ProxyMethod} = {};
+        for (const method of specification.methods)
+            methods[method.name] = this.makeMethod(method);
+
+        this.methods = methods;
+    }
+
+    private makeMethod(method: MethodSpecification): ProxyMethod {
+        const inputs = method.arguments.filter(a => a.write);
+        const signature = inputs.map(a => a.type).join("");
+
+        return ((...args: unknown[]) => {
+            const options = args.length > inputs.length ? args[inputs.length] as CallOptions : undefined;
+            return this.bus.call(
+                this.service,
+                this.path,
+                this.iface,
+                method.name,
+                signature,
+                args.slice(0, inputs.length) as Value[],
+                options,
+            ).then(unpackResults);
+        }) as ProxyMethod;
+    }
+
+    /**
+     * Invoke a method by name
+     */
+    call(name: string, args: ReadonlyArray<Value> = [], options?: CallOptions): Promise<Value | ReadonlyArray<Value> | undefined> {
+        const method = this.methods[name];
+        if (!method)
+            return Promise.reject(new DBusError(ErrorName.UnknownMethod, `No method ${name} in ${this.iface}`));
+
+        return options ? method(...args, options) : method(...args);
+    }
+
+    /**
+     * Listen to a signal, receiving its arguments
+     */
+    connect(name: string, listener: ProxySignalListener): Subscription {
+        if (!this.specification.getSignal(name))
+            throw new DBusError(ErrorName.UnknownMethod, `No signal ${name} in ${this.iface}`);
+
+        return this.bus.subscribe({
+            type: "signal",
+            sender: this.service || undefined,
+            path: this.path,
+            interface: this.iface,
+            member: name,
+        }, reader => listener(...reader.readBody()));
+    }
+
+    getProperty(name: string, options?: CallOptions): Promise<Value> {
+        const {service, path, iface, specification} = this;
+        return this.bus.getProperty(service, path, iface, name, {...options, specification});
+    }
+
+    setProperty(name: string, value: Value, options?: CallOptions): Promise<void> {
+        const {service, path, iface, specification} = this;
+        return this.bus.setProperty(service, path, iface, name, value, {...options, specification});
+    }
+
+    getAllProperties(options?: CallOptions): Promise<Map<string, Value>> {
+        const {service, path, iface, specification} = this;
+        return this.bus.getAllProperties(service, path, iface, {...options, specification});
+    }
+}
@@ -1,3 +1,14 @@
+import {MalformedMessageError} from "./errors";
+import type {Reader} from "./message";
+import {
+    isValidObjectPath,
+    isValidSignature,
+    maxArraySize,
+    maxMessageSize,
+    maxNestingDepth,
+    maxSignatureLength,
+} from "./validation";
+
 export enum DataType {
     String = "s",
     Boolean = "b",
@@ -18,136 +29,306 @@ export enum DataType {
     Double = "d",
 }
 
+const utf8Encoder = new TextEncoder();
+
+/**
+ * Count the bytes a string takes up in UTF-8, lone surrogates being encoded as U+FFFD
+ */
+function utf8Length(value: string): number {
+    let result = value.length;
+    for (let n = 0; n < value.length; ++n) {
+        const code = value.charCodeAt(n);
+        if (code < 0x80)
+            continue;
+
+        if (code < 0x800) {
+            result += 1;
+            continue;
+        }
+
+        // a surrogate pair is 2 code units for 4 bytes
+        if (code >= 0xD800 && code <= 0xDBFF) {
+            const next = value.charCodeAt(n + 1);
+            if (next >= 0xDC00 && next <= 0xDFFF) {
+                result += 2;
+                ++n;
+                continue;
+            }
+        }
+
+        result += 2;
+    }
+
+    return result;
+}
+
+/**
+ * Serializes values into a buffer that grows as needed, up to the size limit of a message
+ */
 export class Writer {
     private offset: number = 0;
-    readonly view: DataView;
+    private bytes: Uint8Array;
+    private data: DataView;
 
-    constructor(buffer: ArrayBuffer) {
-        this.view = new DataView(buffer);
+    constructor(capacity: number = 256, private little: boolean = true) {
+        this.bytes = new Uint8Array(capacity);
+        this.data = new DataView(this.bytes.buffer);
+    }
+
+    get view(): DataView {
+        return this.data;
     }
 
     get position(): number {
         return this.offset;
     }
 
+    get capacity(): number {
+        return this.bytes.length;
+    }
+
+    get littleEndian(): boolean {
+        return this.little;
+    }
+
+    /**
+     * Start over at the beginning of the buffer, to write another message
+     */
+    reset(littleEndian: boolean = true): void {
+        this.offset = 0;
+        this.little = littleEndian;
+    }
+
+    // Make sure there's room for as many more bytes past the current offset
+    private reserve(bytes: number): void {
+        const required = this.offset + bytes;
+        if (required <= this.bytes.length)
+            return;
+
+        if (required > maxMessageSize)
+            throw new Error(`Message exceeds the ${maxMessageSize} bytes limit`);
+
+        const grown = new Uint8Array(Math.min(Math.max(required, this.bytes.length * 2), maxMessageSize));
+        grown.set(this.bytes);
+        this.bytes = grown;
+        this.data = new DataView(grown.buffer);
+    }
+
+    /**
+     * Skip to the next multiple of size, writing zeros over the padding
+     */
     pad(size: number): number {
-        this.offset = size * Math.trunc((this.offset + size - 1) / size);
+        const next = size * Math.trunc((this.offset + size - 1) / size);
+        this.reserve(next - this.offset);
+        this.bytes.fill(0, this.offset, next);
+        this.offset = next;
         return this.offset;
     }
 
     seek(offset: number): void {
+        if (offset > this.offset)
+            this.reserve(offset - this.offset);
+
         this.offset = offset;
     }
 
-    private encodeString(value: string): number {
-        const allocated = value.length + 1;
-        const strview = new Uint8Array(this.view.buffer, this.offset, allocated);
-        const progress = new TextEncoder().encodeInto(value, strview);
-        if (progress.read < value.length) {
-            // TODO: handle resizing
-        }
-
-        strview[allocated - 1] = 0;
-        return allocated;
+    private encodeString(value: string, length: number): void {
+        this.reserve(length + 1);
+        utf8Encoder.encodeInto(value, this.bytes.subarray(this.offset, this.offset + length));
+        this.bytes[this.offset + length] = 0;
+        this.offset += length + 1;
     }
 
     writeString(value: string): void {
-        const start = this.pad(4);
-        this.offset += 4;
+        if (value.includes("\0"))
+            throw new Error("DBus strings cannot contain nul characters");
 
-        const written = this.encodeString(value);
-        this.offset += written;
-        this.view.setUint32(start, written - 1, true);
+        const length = utf8Length(value);
+        this.writeUInt32(length);
+        this.encodeString(value, length);
     }
 
     writeSignature(value: string): void {
-        const start = this.offset;
-        ++this.offset;
-
-        const written = this.encodeString(value);
-        this.offset += written;
-        this.view.setUint8(start, written - 1);
+        this.writeByte(value.length);
+        this.encodeString(value, value.length);
     }
 
     writeByte(value: number): void {
-        this.view.setUint8(this.offset, value);
+        this.reserve(1);
+        this.data.setUint8(this.offset, value);
         ++this.offset;
     }
 
     writeBool(value: boolean): void {
-        this.pad(4);
-        this.view.setUint32(this.offset, value ? 1 : 0, true);
-        this.offset += 4;
+        this.writeUInt32(value ? 1 : 0);
     }
 
     writeInt16(value: number): void {
         this.pad(2);
-        this.view.setInt16(this.offset, value, true);
+        this.reserve(2);
+        this.data.setInt16(this.offset, value, this.little);
         this.offset += 2;
     }
 
     writeUInt16(value: number): void {
         this.pad(2);
-        this.view.setUint16(this.offset, value, true);
+        this.reserve(2);
+        this.data.setUint16(this.offset, value, this.little);
         this.offset += 2;
     }
 
     writeInt32(value: number): void {
         this.pad(4);
-        this.view.setInt32(this.offset, value, true);
+        this.reserve(4);
+        this.data.setInt32(this.offset, value, this.little);
         this.offset += 4;
     }
 
     writeUInt32(value: number): void {
         this.pad(4);
-        this.view.setUint32(this.offset, value, true);
+        this.reserve(4);
+        this.data.setUint32(this.offset, value, this.little);
         this.offset += 4;
     }
 
     writeInt64(value: bigint): void {
         this.pad(8);
-        this.view.setBigInt64(this.offset, value, true);
+        this.reserve(8);
+        this.data.setBigInt64(this.offset, value, this.little);
         this.offset += 8;
     }
 
     writeUInt64(value: bigint): void {
         this.pad(8);
-        this.view.setBigUint64(this.offset, value, true);
+        this.reserve(8);
+        this.data.setBigUint64(this.offset, value, this.little);
         this.offset += 8;
     }
 
     writeDouble(value: number): void {
         this.pad(8);
-        this.view.setFloat64(this.offset, value, true);
+        this.reserve(8);
+        this.data.setFloat64(this.offset, value, this.little);
         this.offset += 8;
     }
 
     append(value: Uint8Array): void {
-        new Uint8Array(this.view.buffer).set(value, this.offset);
+        this.reserve(value.length);
+        this.bytes.set(value, this.offset);
         this.offset += value.length;
     }
 
+    /**
+     * Copy out what was written, the buffer is left to be reused
+     */
     cloneData(): ArrayBuffer {
-        return this.view.buffer.slice(0, this.offset);
+        return this.bytes.buffer.slice(0, this.offset);
     }
 }
 
 export type ScalarValue = number | string | boolean | bigint;
-export type Value = ScalarValue | Uint8Array | ReadonlyArray<Value>;
+export type Value =
+    | ScalarValue
+    | Uint8Array
+    | Variant
+    | ReadonlyArray<Value>
+    | ReadonlyMap<Value, Value>
+    | {readonly [key: string]: Value};
+
+export interface DeserializeOptions {
+    // decode dictionaries with string-like keys into objects without a prototype instead of Map
+    dictionaryObjects?: boolean;
+}
+
+/**
+ * A value tagged with the signature of the single complete type it is encoded as
+ */
+export class Variant {
+    constructor(readonly signature: string, readonly value: Value) {
+        // do nothing
+    }
+
+    /**
+     * Wrap a plain JS value, guessing its signature from its JS type
+     */
+    static infer(value: Value): Variant {
+        return value instanceof Variant ? value : new Variant(inferSignature(value), value);
+    }
+}
+
+const int32Min = -(2 ** 31);
+const int32Max = 2 ** 31 - 1;
+
+/**
+ * Guess the signature of a plain JS value
+ *
+ * Integral numbers within range become int32 and other numbers become double, bigints become int64, arrays
+ * become arrays of variants unless they're byte arrays, and Maps or plain objects become dictionaries of variants.
+ */
+export function inferSignature(value: Value): string {
+    switch (typeof value) {
+    case "string":
+        return DataType.String;
+
+    case "boolean":
+        return DataType.Boolean;
+
+    case "bigint":
+        return DataType.Int64;
+
+    case "number":
+        return Number.isInteger(value) && value >= int32Min && value <= int32Max
+            ? DataType.Int32
+            : DataType.Double;
+    }
+
+    if (value instanceof Variant)
+        return DataType.Variant;
+
+    if (value instanceof Uint8Array)
+        return "ay";
+
+    if (Array.isArray(value))
+        return "av";
+
+    if (value instanceof Map) {
+        const first = value.keys().next();
+        return first.done ? "a{sv}" : `a{${inferSignature(first.value)}v}`;
+    }
+
+    if (typeof value === "object")
+        return "a{sv}";
+
+    throw new Error("Cannot infer DBus signature of value");
+}
 
 export interface Serializer {
     readonly alignment: number;
     readonly signature: string;
 
-    estimateBytesLength(value: Value): number;
     serializeInto(writer: Writer, value: Value): void;
 }
 
+export interface Deserializer {
+    readonly alignment: number;
+    readonly signature: string;
+
+    deserializeFrom(reader: Reader, options?: DeserializeOptions): Value;
+}
+
+/**
+ * Both halves of the (de)serialization of a single complete type, as produced by parseSignature
+ */
+export type Codec = Serializer & Deserializer;
+
 interface WriterMethodErasure {
     (value: Value): void;
 }
 
-class PrimitiveSerializer implements Serializer {
+// Reader methods taking no arguments, the type can only be imported so methods are referred to by name
+type ReaderMethodName = {[K in keyof Reader]: Reader[K] extends () => Value ? K : never}[keyof Reader];
+
+class PrimitiveSerializer implements Codec {
     private readonly method: (this: Writer, value: Value) => void;
 
     readonly alignment: number;
@@ -156,51 +337,45 @@ class PrimitiveSerializer implements Serializer {
         readonly signature: string,
         bytes: number,
         method: typeof Writer.prototype[keyof typeof Writer.prototype],
+        private readonly readMethod: ReaderMethodName,
     ) {
         this.alignment = bytes;
         this.method = method as WriterMethodErasure;
     }
 
-    estimateBytesLength(): number {
-        return this.alignment * 2 - 1;
-    }
-
     serializeInto(writer: Writer, value: Value): void {
         this.method.call(writer, value);
     }
 
+    deserializeFrom(reader: Reader): Value {
+        return reader[this.readMethod]();
+    }
+
     static instances: {[K in DataType[number]]: PrimitiveSerializer} = {
-        [DataType.Byte]: new PrimitiveSerializer(DataType.Byte, 1, Writer.prototype.writeByte),
-        [DataType.Boolean]: new PrimitiveSerializer(DataType.Boolean, 4, Writer.prototype.writeBool),
-        [DataType.Int16]: new PrimitiveSerializer(DataType.Int16, 2, Writer.prototype.writeInt16),
-        [DataType.Int32]: new PrimitiveSerializer(DataType.Int32, 4, Writer.prototype.writeInt32),
-        [DataType.Int64]: new PrimitiveSerializer(DataType.Int64, 8, Writer.prototype.writeInt64),
-        [DataType.Unsigned16]: new PrimitiveSerializer(DataType.Unsigned16, 2, Writer.prototype.writeUInt16),
-        [DataType.Unsigned32]: new PrimitiveSerializer(DataType.Unsigned32, 4, Writer.prototype.writeUInt32),
-        [DataType.Unsigned64]: new PrimitiveSerializer(DataType.Unsigned64, 8, Writer.prototype.writeUInt64),
-        [DataType.Double]: new PrimitiveSerializer(DataType.Double, 8, Writer.prototype.writeDouble),
+        [DataType.Byte]: new PrimitiveSerializer(DataType.Byte, 1, Writer.prototype.writeByte, "readUint8"),
+        [DataType.Boolean]: new PrimitiveSerializer(DataType.Boolean, 4, Writer.prototype.writeBool, "readBool"),
+        [DataType.Int16]: new PrimitiveSerializer(DataType.Int16, 2, Writer.prototype.writeInt16, "readInt16"),
+        [DataType.Int32]: new PrimitiveSerializer(DataType.Int32, 4, Writer.prototype.writeInt32, "readInt32"),
+        [DataType.Int64]: new PrimitiveSerializer(DataType.Int64, 8, Writer.prototype.writeInt64, "readInt64"),
+        [DataType.Unsigned16]: new PrimitiveSerializer(
+            DataType.Unsigned16, 2, Writer.prototype.writeUInt16, "readUint16"),
+        [DataType.Unsigned32]: new PrimitiveSerializer(
+            DataType.Unsigned32, 4, Writer.prototype.writeUInt32, "readUint32"),
+        [DataType.Unsigned64]: new PrimitiveSerializer(
+            DataType.Unsigned64, 8, Writer.prototype.writeUInt64, "readUint64"),
+        [DataType.Double]: new PrimitiveSerializer(DataType.Double, 8, Writer.prototype.writeDouble, "readDouble"),
         // TODO: "h": new PrimitiveSerializer(4, Writer.prototype.writeUInt32),
     };
 }
 
-export class StructSerializer implements Serializer {
+export class StructSerializer implements Codec {
     alignment!: number;
     signature: string;
 
-    constructor(private readonly fields: Serializer[]) {
+    constructor(private readonly fields: Codec[]) {
         this.signature = `(${fields.map(f => f.signature).join("")})`;
     }
 
-    estimateBytesLength(value: Value): number {
-        const values = value as ReadonlyArray<Value>;
-
-        let result = 7;
-        for (let n = 0; n < this.fields.length; ++n)
-            result += this.fields[n].estimateBytesLength(values[n]);
-
-        return result;
-    }
-
     serializeInto(writer: Writer, value: Value): void {
         writer.pad(8);
 
@@ -208,28 +383,45 @@ export class StructSerializer implements Serializer {
         for (let n = 0; n < this.fields.length; ++n)
             this.fields[n].serializeInto(writer, values[n]);
     }
+
+    deserializeFrom(reader: Reader, options?: DeserializeOptions): Value {
+        reader.align(8);
+
+        try {
+            reader.enterContainer();
+            return this.deserializeFields(reader, options);
+        } finally {
+            reader.leaveContainer();
+        }
+    }
+
+    protected deserializeFields(reader: Reader, options?: DeserializeOptions): Value {
+        const result = new Array<Value>(this.fields.length);
+        for (let n = 0; n < this.fields.length; ++n)
+            result[n] = this.fields[n].deserializeFrom(reader, options);
+
+        return result;
+    }
 }
 
 StructSerializer.prototype.alignment = 8;
 
-class ArraySerializer implements Serializer {
+// The values of a message body, which unlike those of a struct are not within a container
+class BodySerializer extends StructSerializer {
+    deserializeFrom(reader: Reader, options?: DeserializeOptions): Value {
+        reader.align(8);
+        return this.deserializeFields(reader, options);
+    }
+}
+
+class ArraySerializer implements Codec {
     alignment!: number;
     signature: string;
 
-    constructor(private readonly element: Serializer) {
+    constructor(private readonly element: Codec) {
         this.signature = `a${element.signature}`;
     }
 
-    estimateBytesLength(value: Value): number {
-        const values = value as ReadonlyArray<Value>;
-
-        let result = 4 * 2 - 1;
-        for (let n = 0; n < values.length; ++n)
-            result += this.element.estimateBytesLength(values[n]);
-
-        return result;
-    }
-
     serializeInto(writer: Writer, value: Value): void {
         const values = value as ReadonlyArray<Value>;
 
@@ -245,57 +437,228 @@ class ArraySerializer implements Serializer {
             this.element.serializeInto(writer, values[n]);
 
         const endPosition = writer.position;
-        writer.view.setUint32(sizeFieldPosition, endPosition - elementsPosition, true);
+        writer.view.setUint32(sizeFieldPosition, endPosition - elementsPosition, writer.littleEndian);
+    }
+
+    deserializeFrom(reader: Reader, options?: DeserializeOptions): Value {
+        try {
+            reader.enterContainer();
+            return this.deserializeElements(reader, options);
+        } finally {
+            reader.leaveContainer();
+        }
+    }
+
+    private deserializeElements(reader: Reader, options?: DeserializeOptions): Value {
+        const size = readArraySize(reader);
+        reader.align(this.element.alignment);
+
+        // byte arrays are blobs more often than not, keep them compact
+        if (this.element.signature === DataType.Byte)
+            return reader.readBytes(size);
+
+        const result: Value[] = [];
+        const limit = reader.position + size;
+        while (reader.position < limit)
+            result.push(this.element.deserializeFrom(reader, options));
+
+        checkArrayEnd(reader, limit);
+        return result;
     }
 }
 
 ArraySerializer.prototype.alignment = 4;
 
-class StringSerializer implements Serializer {
+// Read the byte length of an array, the elements must then fill exactly as many bytes
+function readArraySize(reader: Reader): number {
+    const size = reader.readUint32();
+    if (size > maxArraySize)
+        throw new MalformedMessageError(`Array of ${size} bytes exceeds the ${maxArraySize} bytes limit`);
+
+    if (reader.position + size > reader.view.byteLength)
+        throw new MalformedMessageError(`Array of ${size} bytes overruns the message`);
+
+    return size;
+}
+
+function checkArrayEnd(reader: Reader, limit: number): void {
+    if (reader.position !== limit)
+        throw new MalformedMessageError(`Array elements overrun their array by ${reader.position - limit} bytes`);
+}
+
+function isStringLike(signature: string): boolean {
+    return signature === DataType.String || signature === DataType.ObjectPath || signature === DataType.TypeSignature;
+}
+
+/**
+ * Serializer of an array of dict entries, accepting either a Map or a plain object for string-like keys
+ */
+class DictionarySerializer implements Codec {
     alignment!: number;
+    signature: string;
 
-    constructor(readonly signature: string) {
-        // do nothing
+    constructor(private readonly key: Codec, private readonly value: Codec) {
+        this.signature = `a{${key.signature}${value.signature}}`;
     }
 
-    estimateBytesLength(value: Value): number {
-        return 1 + (4 * 2 - 1) + (value as string).length;
+    private entries(value: Value): Iterable<[Value, Value]> {
+        if (value instanceof Map)
+            return value.entries();
+
+        if (!isStringLike(this.key.signature))
+            throw new Error(`Dictionary with ${this.key.signature} keys must be given as a Map`);
+
+        return Object.entries(value);
     }
 
     serializeInto(writer: Writer, value: Value): void {
+        const sizeFieldPosition = writer.pad(4);
+        writer.seek(sizeFieldPosition + 4);
+
+        // dict entries are aligned like structs
+        const elementsPosition = writer.pad(8);
+
+        for (const [k, v] of this.entries(value)) {
+            writer.pad(8);
+            this.key.serializeInto(writer, k);
+            this.value.serializeInto(writer, v);
+        }
+
+        const endPosition = writer.position;
+        writer.view.setUint32(sizeFieldPosition, endPosition - elementsPosition, writer.littleEndian);
+    }
+
+    deserializeFrom(reader: Reader, options?: DeserializeOptions): Value {
+        try {
+            reader.enterContainer();
+            return this.deserializeEntries(reader, options);
+        } finally {
+            reader.leaveContainer();
+        }
+    }
+
+    private deserializeEntries(reader: Reader, options?: DeserializeOptions): Value {
+        const size = readArraySize(reader);
+        reader.align(8);
+
+        const limit = reader.position + size;
+        if (options?.dictionaryObjects && isStringLike(this.key.signature)) {
+            // keys come off the wire, one named __proto__ must not replace the prototype
+            const result: {[key: string]: Value} = Object.create(null);
+            while (reader.position < limit) {
+                reader.align(8);
+                const k = this.key.deserializeFrom(reader) as string;
+                result[k] = this.value.deserializeFrom(reader, options);
+            }
+
+            checkArrayEnd(reader, limit);
+            return result;
+        }
+
+        const result = new Map<Value, Value>();
+        while (reader.position < limit) {
+            reader.align(8);
+            const k = this.key.deserializeFrom(reader);
+            result.set(k, this.value.deserializeFrom(reader, options));
+        }
+
+        checkArrayEnd(reader, limit);
+        return result;
+    }
+}
+
+DictionarySerializer.prototype.alignment = 4;
+
+class StringSerializer implements Codec {
+    alignment!: number;
+
+    constructor(readonly signature: string) {
+        // do nothing
+    }
+
+    serializeInto(writer: Writer, value: Value): void {
+        if (this.signature === DataType.ObjectPath && !isValidObjectPath(value as string))
+            throw new Error(`Invalid object path: "${value}"`);
+
         writer.writeString(value as string)
     }
+
+    deserializeFrom(reader: Reader): Value {
+        const result = reader.readString();
+        if (this.signature === DataType.ObjectPath && !isValidObjectPath(result))
+            throw new MalformedMessageError(`Invalid object path: "${result}"`);
+
+        return result;
+    }
 }
 
 StringSerializer.prototype.alignment = 4;
 
-class SignatureSerializer implements Serializer {
+class SignatureSerializer implements Codec {
     alignment!: number;
     signature!: string;
 
-    estimateBytesLength(value: Value): number {
-        return 2 + (value as string).length;
-    }
-
     serializeInto(writer: Writer, value: Value): void {
+        parseSignature(value as string);
         writer.writeSignature(value as string)
     }
+
+    deserializeFrom(reader: Reader): Value {
+        const result = reader.readSignature();
+        if (!isValidSignature(result))
+            throw new MalformedMessageError(`Invalid signature: "${result}"`);
+
+        return result;
+    }
 }
 
 SignatureSerializer.prototype.alignment = 1;
 SignatureSerializer.prototype.signature = DataType.TypeSignature;
 
-export const stringSerializer: Serializer = new StringSerializer(DataType.String);
-export const pathSerializer: Serializer = new StringSerializer(DataType.ObjectPath);
-export const signatureSerializer: Serializer = new SignatureSerializer();
-export const emptySerializer: Serializer = new StructSerializer([]);
+class VariantSerializer implements Codec {
+    alignment!: number;
+    signature!: string;
+
+    serializeInto(writer: Writer, value: Value): void {
+        const variant = Variant.infer(value);
+        writer.writeSignature(variant.signature);
+        getTypeSerializer(variant.signature).serializeInto(writer, variant.value);
+    }
+
+    deserializeFrom(reader: Reader, options?: DeserializeOptions): Value {
+        const signature = reader.readSignature();
+
+        let serializer: Codec;
+        try {
+            serializer = getTypeSerializer(signature);
+        } catch (e) {
+            throw new MalformedMessageError(`Invalid variant: ${(e as Error).message}`);
+        }
+
+        try {
+            reader.enterContainer();
+            return new Variant(signature, serializer.deserializeFrom(reader, options));
+        } finally {
+            reader.leaveContainer();
+        }
+    }
+}
+
+VariantSerializer.prototype.alignment = 1;
+VariantSerializer.prototype.signature = DataType.Variant;
+
+export const stringSerializer: Codec = new StringSerializer(DataType.String);
+export const pathSerializer: Codec = new StringSerializer(DataType.ObjectPath);
+export const signatureSerializer: Codec = new SignatureSerializer();
+export const variantSerializer: Codec = new VariantSerializer();
+export const emptySerializer: Codec = new StructSerializer([]);
 
 /**
  * Get a serializer for a non-composite value
  */
-export function getValueSerializer(code: DataType): Serializer;
-export function getValueSerializer(code: string): Serializer | null;
-export function getValueSerializer(code: DataType | string): Serializer | null {
+export function getValueSerializer(code: DataType): Codec;
+export function getValueSerializer(code: string): Codec | null;
+export function getValueSerializer(code: DataType | string): Codec | null {
     switch (code) {
     case "s":
         return stringSerializer;
@@ -307,7 +670,7 @@ export function getValueSerializer(code: DataType | string): Serializer | null {
         return signatureSerializer;
 
     case "v":
-        // TODO
+        return variantSerializer;
     }
 
     const candidate = PrimitiveSerializer.instances[code];
@@ -317,6 +680,21 @@ export function getValueSerializer(code: DataType | string): Serializer | null {
     return null;
 }
 
+const basicTypes = new Set<string>([
+    DataType.Byte,
+    DataType.Boolean,
+    DataType.Int16,
+    DataType.Unsigned16,
+    DataType.Int32,
+    DataType.Unsigned32,
+    DataType.Int64,
+    DataType.Unsigned64,
+    DataType.Double,
+    DataType.String,
+    DataType.ObjectPath,
+    DataType.TypeSignature,
+]);
+
 const enum CompositeKind {
     Array = "a",
     Struct = "(",
@@ -325,7 +703,7 @@ const enum CompositeKind {
 
 interface CompositeSerializerParts {
     readonly kind?: CompositeKind;
-    readonly elements: Serializer[];
+    readonly elements: Codec[];
 }
 
 class SerializerBuilder {
@@ -337,7 +715,7 @@ class SerializerBuilder {
         this.incomplete = [];
     }
 
-    add(serializer: Serializer): void {
+    add(serializer: Codec): void {
         while (this.current.kind === CompositeKind.Array) {
             serializer = new ArraySerializer(serializer);
             this.current = this.incomplete.pop()!;
@@ -346,7 +724,18 @@ class SerializerBuilder {
         this.current.elements.push(serializer);
     }
 
-    beginComposite(kind: CompositeKind): void {
+    beginComposite(kind: CompositeKind, signature: string): void {
+        if (kind === CompositeKind.Dictionary && this.current.kind !== CompositeKind.Array)
+            throw new Error(`Dict entry outside of an array in DBus signature: ${signature}`);
+
+        // dict entries count as structs, as in the reference implementation
+        const isArray = kind === CompositeKind.Array;
+        const enclosing = [...this.incomplete, this.current]
+            .filter(parts => parts.kind && (parts.kind === CompositeKind.Array) === isArray);
+
+        if (enclosing.length >= maxNestingDepth)
+            throw new Error(`More than ${maxNestingDepth} nested ${isArray ? "arrays" : "structs"} in DBus signature: ${signature}`);
+
         this.incomplete.push(this.current);
         this.current = { kind, elements: [] };
     }
@@ -362,9 +751,19 @@ class SerializerBuilder {
         this.current = this.incomplete.pop()!;
 
         switch (kind) {
-        case CompositeKind.Dictionary:
-            // TODO
+        case CompositeKind.Dictionary: {
+            if (elements.length !== 2)
+                throw new Error(`Dict entry must have exactly a key and a value in DBus signature: ${signature}`);
+
+            const [key, value] = elements;
+            if (!basicTypes.has(key.signature))
+                throw new Error(`Dict entry key must be a basic type in DBus signature: ${signature}`);
+
+            // the dict entry replaces the array it's in
+            this.current = this.incomplete.pop()!;
+            this.add(new DictionarySerializer(key, value));
             break;
+        }
 
         case CompositeKind.Struct:
             this.add(new StructSerializer(elements));
@@ -372,8 +771,8 @@ class SerializerBuilder {
         }
     }
 
-    build(signature: string): Serializer[] {
-        if (this.incomplete.length > 1)
+    build(signature: string): Codec[] {
+        if (this.incomplete.length > 0)
             throw new Error(`Incomplete DBus signature: ${signature}`);
 
         return this.current.elements;
@@ -382,7 +781,10 @@ class SerializerBuilder {
 
 // type ReservedTypeCode = "rem*?@&^";
 
-export function parseSignature(signature: string): Serializer[] {
+export function parseSignature(signature: string): Codec[] {
+    if (signature.length > maxSignatureLength)
+        throw new Error(`DBus signature longer than ${maxSignatureLength} characters: ${signature}`);
+
     const builder = new SerializerBuilder();
 
     for (let index = 0; index < signature.length; ++index) {
@@ -392,7 +794,7 @@ export function parseSignature(signature: string): Serializer[] {
         case CompositeKind.Array:
         case CompositeKind.Dictionary:
         case CompositeKind.Struct:
-            builder.beginComposite(token);
+            builder.beginComposite(token, signature);
             continue;
 
         case "}":
@@ -414,3 +816,56 @@ export function parseSignature(signature: string): Serializer[] {
 
     return builder.build(signature);
 }
+
+// Signatures also come off the wire, so only as many are kept as any sane peer uses, the oldest going first
+const maxCachedSignatures = 256;
+
+function cacheSerializer<T>(cache: Map<string, T>, signature: string, serializer: T): void {
+    if (cache.size >= maxCachedSignatures)
+        cache.delete(cache.keys().next().value as string);
+
+    cache.set(signature, serializer);
+}
+
+const typeSerializers = new Map<string, Codec>();
+
+/**
+ * Get the serializer for a signature consisting of exactly one single complete type
+ */
+export function getTypeSerializer(signature: string): Codec {
+    let result = typeSerializers.get(signature);
+    if (!result) {
+        const serializers = parseSignature(signature);
+        if (serializers.length !== 1)
+            throw new Error(`DBus signature is not a single complete type: ${signature}`);
+
+        result = serializers[0];
+        cacheSerializer(typeSerializers, signature, result);
+    }
+
+    return result;
+}
+
+const bodySerializers = new Map<string, StructSerializer>();
+
+/**
+ * Get a serializer for the values of a message body matching the given Signature header
+ */
+export function getBodySerializer(signature: string): StructSerializer {
+    let result = bodySerializers.get(signature);
+    if (!result) {
+        result = new BodySerializer(parseSignature(signature));
+        cacheSerializer(bodySerializers, signature, result);
+    }
+
+    return result;
+}
+
+/**
+ * Get a deserializer for a message body as described by its Signature header
+ *
+ * The result decodes into the same shape that a StructSerializer of the same fields accepts
+ */
+export function getBodyDeserializer(signature: string): Deserializer {
+    return getBodySerializer(signature);
+}
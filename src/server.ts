@@ -0,0 +1,213 @@
+import {randomBytes} from "crypto";
+import {type Server as NetServer, type Socket, createServer} from "net";
+
+import {type ServerAuthOptions, type ServerAuthResult, acceptAuthentication} from "./auth";
+import {
+    type Address,
+    type ConnectionOptions,
+    type UnixDomainAbstractAddress,
+    type UnixDomainPathAddress,
+    Bus,
+    Connection,
+    formatAddress,
+    parseListenAddress,
+} from "./transport";
+
+export interface ServerOptions extends ConnectionOptions, ServerAuthOptions {
+    // the globally unique ID to identify as, a random one if absent
+    guid?: string;
+}
+
+export interface PeerListener {
+    (peer: Bus, auth: ServerAuthResult): void;
+}
+
+/**
+ * Bind a server to a parsed listen address, resolving to the address as bound, the picked tcp port included
+ */
+function listenOn(server: NetServer, address: Address): Promise<Address> {
+    return new Promise((resolve, reject) => {
+        server.once("error", reject);
+
+        const onListening = () => {
+            server.removeListener("error", reject);
+            if (address.transport !== "tcp") {
+                resolve(address);
+                return;
+            }
+
+            // the port may have been left for the system to pick
+            const bound = server.address();
+            const port = bound && typeof bound === "object" ? bound.port.toString() : address.port;
+            resolve({...address, port});
+        };
+
+        switch (address.transport) {
+        case "tcp":
+            server.listen({
+                host: address.host || "localhost",
+                port: Number(address.port),
+                ipv6Only: address.family === "ipv6",
+            }, onListening);
+
+            break;
+
+        default: {
+            const abstract = (address as UnixDomainAbstractAddress).abstract;
+            server.listen(abstract ? `\u0000${abstract}` : (address as UnixDomainPathAddress).path, onListening);
+        }
+        }
+    });
+}
+
+/**
+ * Tell whether to offer EXTERNAL on an address, which takes clients at their word
+ *
+ * Abstract sockets have no permissions to keep other users out, so only sockets with a path are considered.
+ */
+function offersExternal(address: Address, options: ServerAuthOptions): boolean {
+    return !!options.allowExternal && address.transport === "unix" && !!(address as UnixDomainPathAddress).path;
+}
+
+export interface ConnectionHandler {
+    (connection: Connection, auth: ServerAuthResult, socket: Socket): void;
+}
+
+/**
+ * Listens on an address and authenticates clients, handing each over as a Connection
+ *
+ * What the handler throws disconnects the client, and is reported as from any other listener.
+ */
+export class ConnectionAcceptor {
+    private readonly connections = new Set<Connection>();
+
+    // clients still authenticating
+    private readonly handshakes = new Set<Socket>();
+
+    private closed = false;
+
+    private constructor(
+        private readonly listener: NetServer,
+        private readonly boundAddress: Address,
+        readonly guid: string,
+        private readonly handler: ConnectionHandler,
+        private readonly options: ServerOptions,
+    ) {
+        listener.on("connection", this.onConnection.bind(this));
+    }
+
+    /**
+     * The address clients connect to, the guid included
+     */
+    get address(): string {
+        return formatAddress({...this.boundAddress, guid: this.guid});
+    }
+
+    private onConnection(socket: Socket): void {
+        const external = offersExternal(this.boundAddress, this.options);
+        const onError = () => socket.destroy();
+        socket.on("error", onError);
+        this.handshakes.add(socket);
+
+        acceptAuthentication(socket, this.guid, external, this.options).then(auth => {
+            this.handshakes.delete(socket);
+            socket.removeListener("error", onError);
+
+            // out of the promise chain, so what the handler throws is reported as from any other listener
+            process.nextTick(() => this.onAuthenticated(socket, auth));
+        }, () => {
+            this.handshakes.delete(socket);
+            socket.destroy();
+        });
+    }
+
+    private onAuthenticated(socket: Socket, auth: ServerAuthResult): void {
+        // closed while the client was finishing its handshake
+        if (this.closed) {
+            socket.destroy();
+            return;
+        }
+
+        const connection = Connection.accept(socket, auth, auth.remainder, this.options);
+        this.connections.add(connection);
+        socket.once("close", () => this.connections.delete(connection));
+
+        try {
+            this.handler(connection, auth, socket);
+        } catch (e) {
+            socket.destroy();
+            throw e;
+        }
+    }
+
+    /**
+     * Stop accepting clients and disconnect those connected
+     */
+    close(): Promise<void> {
+        this.closed = true;
+        for (const socket of this.handshakes)
+            socket.destroy();
+
+        for (const connection of this.connections)
+            connection.close();
+
+        this.connections.clear();
+        return new Promise((resolve, reject) => this.listener.close(e => e ? reject(e) : resolve()));
+    }
+
+    /**
+     * Listen on an address, such as unix:tmpdir=/tmp or tcp:host=localhost,port=0
+     *
+     * @param handler receives each client once it authenticated
+     */
+    static listen(address: string, handler: ConnectionHandler, options?: ServerOptions): Promise<ConnectionAcceptor> {
+        return Promise.resolve().then(() => {
+            const listenAddress = parseListenAddress(address);
+            const listener = createServer();
+            const guid = options?.guid || randomBytes(16).toString("hex");
+
+            return listenOn(listener, listenAddress)
+                .then(bound => new ConnectionAcceptor(listener, bound, guid, handler, options || {}));
+        });
+    }
+}
+
+/**
+ * Listens for direct connections from peers, serving each as a Bus of its own
+ */
+export class Server {
+    private constructor(private readonly acceptor: ConnectionAcceptor) {
+        // do nothing
+    }
+
+    /**
+     * The globally unique ID of this server
+     */
+    get guid(): string {
+        return this.acceptor.guid;
+    }
+
+    /**
+     * The address peers connect to with openPeer, the guid included
+     */
+    get address(): string {
+        return this.acceptor.address;
+    }
+
+    /**
+     * Stop accepting peers and disconnect those connected
+     */
+    close(): Promise<void> {
+        return this.acceptor.close();
+    }
+
+    /**
+     * Listen on an address, such as unix:tmpdir=/tmp or tcp:host=localhost,port=0
+     *
+     * @param handler receives each peer once it authenticated
+     */
+    static listen(address: string, handler: PeerListener, options?: ServerOptions): Promise<Server> {
+        return ConnectionAcceptor.listen(address, (connection, auth) => handler(new Bus(connection), auth), options)
+            .then(acceptor => new Server(acceptor));
+    }
+}
@@ -0,0 +1,511 @@
+import {DBusError, ErrorName} from "./errors";
+import {
+    type InterfaceDefinition,
+    type MethodArgumentDefinition,
+    type NodeDefinition,
+    type SignalArgumentDefinition,
+    formatIntrospection,
+} from "./introspection";
+import {Builder as MessageBuilder, Flag, Header, Kind as MessageKind, Reader} from "./message";
+import {
+    type Deserializer,
+    type Serializer,
+    type Value,
+    DataType,
+    StructSerializer,
+    Variant,
+    getBodyDeserializer,
+    parseSignature,
+} from "./serialization";
+import {getStandardInterfaces, introspectableInterfaceName, propertiesInterfaceName} from "./standard";
+import {isValidObjectPath} from "./validation";
+
+export interface ArgumentDeclaration {
+    name?: string;
+    type: string;
+}
+
+export type MethodResult = Value | ReadonlyArray<Value> | void;
+
+export interface MethodDeclaration {
+    inputs?: ReadonlyArray<ArgumentDeclaration>;
+    outputs?: ReadonlyArray<ArgumentDeclaration>;
+
+    /**
+     * Invoked with the decoded input arguments
+     *
+     * Returns the only output argument as is, or multiple output arguments as an array. Throwing a DBusError
+     * replies with that error, other exceptions reply with org.freedesktop.DBus.Error.Failed
+     */
+    handler(...args: Value[]): MethodResult | Promise<MethodResult>;
+}
+
+export interface SignalDeclaration {
+    arguments?: ReadonlyArray<ArgumentDeclaration>;
+}
+
+export type PropertyAccess = "read" | "write" | "readwrite";
+
+export interface PropertyDeclaration {
+    type: string;
+    access: PropertyAccess;
+
+    // how PropertiesChanged reports changes, as per org.freedesktop.DBus.Property.EmitsChangedSignal
+    emitsChange?: boolean | "invalidates" | "const";
+
+    get?(): Value | Promise<Value>;
+    set?(value: Value): void | Promise<void>;
+}
+
+export interface InterfaceDeclaration {
+    readonly name: string;
+    readonly methods?: {readonly [name: string]: MethodDeclaration};
+    readonly signals?: {readonly [name: string]: SignalDeclaration};
+    readonly properties?: {readonly [name: string]: PropertyDeclaration};
+}
+
+/**
+ * Something able to put a message on the wire without expecting a reply
+ */
+export interface MessageSender {
+    send(value: ArrayBuffer): number;
+}
+
+function joinSignatures(args: ReadonlyArray<ArgumentDeclaration> | undefined): string {
+    return args ? args.map(a => a.type).join("") : "";
+}
+
+function makeStructSerializer(signature: string): StructSerializer | null {
+    return signature ? new StructSerializer(parseSignature(signature)) : null;
+}
+
+class ExportedMethod {
+    readonly inputSignature: string;
+    readonly inputDeserializer: Deserializer;
+    readonly outputSerializer: Serializer | null;
+    private readonly outputCount: number;
+
+    constructor(readonly declaration: MethodDeclaration) {
+        this.inputSignature = joinSignatures(declaration.inputs);
+        this.inputDeserializer = getBodyDeserializer(this.inputSignature);
+
+        const outputSignature = joinSignatures(declaration.outputs);
+        this.outputSerializer = makeStructSerializer(outputSignature);
+        this.outputCount = parseSignature(outputSignature).length;
+    }
+
+    invoke(args: ReadonlyArray<Value>): Promise<ReadonlyArray<Value>> {
+        return Promise.resolve()
+            .then(() => this.declaration.handler(...args))
+            .then(result => {
+                switch (this.outputCount) {
+                case 0:
+                    return [];
+
+                case 1:
+                    return [result as Value];
+
+                default:
+                    return result as ReadonlyArray<Value>;
+                }
+            });
+    }
+}
+
+class ExportedProperty {
+    constructor(readonly name: string, readonly declaration: PropertyDeclaration) {
+        // do nothing
+    }
+
+    get readable(): boolean {
+        return this.declaration.access !== "write";
+    }
+
+    get writable(): boolean {
+        return this.declaration.access !== "read";
+    }
+
+    read(): Promise<Variant> {
+        const {get} = this.declaration;
+        if (!this.readable || !get)
+            return Promise.reject(new DBusError(ErrorName.AccessDenied, `Property ${this.name} is not readable`));
+
+        return Promise.resolve()
+            .then(() => get.call(this.declaration))
+            .then(value => new Variant(this.declaration.type, value));
+    }
+}
+
+function describeArguments(
+    args: ReadonlyArray<ArgumentDeclaration> | undefined,
+    direction: "in" | "out",
+): MethodArgumentDefinition[];
+function describeArguments(args: ReadonlyArray<ArgumentDeclaration> | undefined): SignalArgumentDefinition[];
+function describeArguments(
+    args: ReadonlyArray<ArgumentDeclaration> | undefined,
+    direction?: "in" | "out",
+): SignalArgumentDefinition[] {
+    if (!args)
+        return [];
+
+    // unnamed arguments are left out of the XML attributes
+    return args.map(a => direction ? {name: a.name!, type: a.type, direction} : {name: a.name!, type: a.type});
+}
+
+class ExportedInterface {
+    readonly methods = new Map<string, ExportedMethod>();
+    readonly properties = new Map<string, ExportedProperty>();
+    private readonly signalSerializers = new Map<string, Serializer | null>();
+
+    constructor(readonly declaration: InterfaceDeclaration) {
+        const {methods, signals, properties} = declaration;
+        if (methods)
+            for (const name of Object.keys(methods))
+                this.methods.set(name, new ExportedMethod(methods[name]));
+
+        if (signals)
+            for (const name of Object.keys(signals))
+                this.signalSerializers.set(name, makeStructSerializer(joinSignatures(signals[name].arguments)));
+
+        if (properties)
+            for (const name of Object.keys(properties))
+                this.properties.set(name, new ExportedProperty(name, properties[name]));
+    }
+
+    getSignalSerializer(name: string): Serializer | null {
+        const result = this.signalSerializers.get(name);
+        if (result === undefined)
+            throw new Error(`No signal ${name} in ${this.declaration.name}`);
+
+        return result;
+    }
+
+    describe(): InterfaceDefinition {
+        const {name, methods = {}, signals = {}, properties = {}} = this.declaration;
+        return {
+            name,
+            method: Object.keys(methods).map(member => ({
+                name: member,
+                arg: [
+                    ...describeArguments(methods[member].inputs, "in"),
+                    ...describeArguments(methods[member].outputs, "out"),
+                ],
+            })),
+            signal: Object.keys(signals).map(member => ({
+                name: member,
+                arg: describeArguments(signals[member].arguments),
+            })),
+            property: Object.keys(properties).map(member => {
+                const {type, access, emitsChange} = properties[member];
+                return {
+                    name: member,
+                    type,
+                    access,
+                    annotation: emitsChange === undefined || emitsChange === true ? undefined : [{
+                        name: "org.freedesktop.DBus.Property.EmitsChangedSignal",
+                        value: String(emitsChange),
+                    }],
+                };
+            }),
+        };
+    }
+}
+
+export function buildSignal(
+    path: string,
+    iface: string,
+    member: string,
+    serializer: Serializer | null,
+    values: ReadonlyArray<Value>,
+    destination?: string,
+): ArrayBuffer {
+    const message = new MessageBuilder(MessageKind.Signal);
+    message.setHeader(Header.Path, DataType.ObjectPath, path);
+    message.setHeader(Header.Interface, DataType.String, iface);
+    message.setHeader(Header.Member, DataType.String, member);
+    if (destination)
+        message.setHeader(Header.Destination, DataType.String, destination);
+
+    return serializer ? message.build(serializer, values) : message.build();
+}
+
+const propertiesChangedSerializer = new StructSerializer(parseSignature("sa{sv}as"));
+
+/**
+ * An object at a path on a connection, implementing one or more interfaces
+ *
+ * Besides the interfaces it's exported with, every object implements org.freedesktop.DBus.Introspectable,
+ * org.freedesktop.DBus.Peer and org.freedesktop.DBus.Properties.
+ */
+export class ExportedObject {
+    private readonly interfaces = new Map<string, ExportedInterface>();
+
+    constructor(
+        private readonly registry: ObjectRegistry,
+        readonly path: string,
+        interfaces: ReadonlyArray<InterfaceDeclaration>,
+    ) {
+        for (const d of getStandardInterfaces(this))
+            this.interfaces.set(d.name, new ExportedInterface(d));
+
+        for (const d of interfaces)
+            this.interfaces.set(d.name, new ExportedInterface(d));
+    }
+
+    getInterfaceNames(): string[] {
+        return Array.from(this.interfaces.keys());
+    }
+
+    describe(): InterfaceDefinition[] {
+        return Array.from(this.interfaces.values(), i => i.describe());
+    }
+
+    introspect(): string {
+        return this.registry.introspect(this.path);
+    }
+
+    findMethod(iface: string | undefined, member: string): ExportedMethod | DBusError {
+        if (iface) {
+            const candidate = this.interfaces.get(iface);
+            if (!candidate)
+                return new DBusError(ErrorName.UnknownInterface, `No interface ${iface} at ${this.path}`);
+
+            return candidate.methods.get(member)
+                || new DBusError(ErrorName.UnknownMethod, `No method ${member} in ${iface} at ${this.path}`);
+        }
+
+        // the interface header is optional for calls, any interface with such a member will do
+        for (const candidate of this.interfaces.values()) {
+            const method = candidate.methods.get(member);
+            if (method)
+                return method;
+        }
+
+        return new DBusError(ErrorName.UnknownMethod, `No method ${member} at ${this.path}`);
+    }
+
+    private getInterface(iface: string): ExportedInterface {
+        const result = this.interfaces.get(iface);
+        if (!result)
+            throw new DBusError(ErrorName.UnknownInterface, `No interface ${iface} at ${this.path}`);
+
+        return result;
+    }
+
+    private getProperty(iface: string, name: string): ExportedProperty {
+        const result = this.getInterface(iface).properties.get(name);
+        if (!result)
+            throw new DBusError(ErrorName.UnknownProperty, `No property ${name} in ${iface} at ${this.path}`);
+
+        return result;
+    }
+
+    readProperty(iface: string, name: string): Promise<Variant> {
+        return Promise.resolve().then(() => this.getProperty(iface, name).read());
+    }
+
+    readAllProperties(iface: string): Promise<Map<string, Variant>> {
+        return Promise.resolve().then(() => {
+            const readable = Array.from(this.getInterface(iface).properties.values()).filter(p => p.readable);
+            return Promise.all(readable.map(p => p.read()))
+                .then(values => new Map(values.map((v, n) => [readable[n].name, v])));
+        });
+    }
+
+    writeProperty(iface: string, name: string, value: Variant): Promise<void> {
+        return Promise.resolve().then(() => {
+            const property = this.getProperty(iface, name);
+            const {set, type, emitsChange} = property.declaration;
+            if (!property.writable || !set)
+                throw new DBusError(ErrorName.PropertyReadOnly, `Property ${name} is not writable`);
+
+            if (value.signature !== type)
+                throw new DBusError(ErrorName.InvalidArgs, `Property ${name} is of type "${type}"`);
+
+            const changes = emitsChange !== false && emitsChange !== "const";
+            return Promise.resolve(set.call(property.declaration, value.value))
+                .then(() => changes ? this.emitPropertiesChanged(iface, [name]) : undefined);
+        });
+    }
+
+    /**
+     * Notify others the given properties changed, sending their new values unless they're declared to only
+     * invalidate
+     */
+    emitPropertiesChanged(iface: string, names: ReadonlyArray<string>): Promise<void> {
+        return Promise.resolve().then(() => {
+            const changed: ExportedProperty[] = [];
+            const invalidated: string[] = [];
+            for (const name of names) {
+                const property = this.getProperty(iface, name);
+                if (property.declaration.emitsChange === "invalidates" || !property.readable)
+                    invalidated.push(name);
+                else
+                    changed.push(property);
+            }
+
+            return Promise.all(changed.map(p => p.read())).then(values => {
+                const changedValues = new Map(values.map((v, n) => [changed[n].name, v]));
+                this.registry.sender.send(buildSignal(
+                    this.path,
+                    propertiesInterfaceName,
+                    "PropertiesChanged",
+                    propertiesChangedSerializer,
+                    [iface, changedValues, invalidated]));
+            });
+        });
+    }
+
+    /**
+     * Emit a signal declared by one of this object's interfaces
+     */
+    emitSignal(iface: string, name: string, args: ReadonlyArray<Value> = []): void {
+        const serializer = this.getInterface(iface).getSignalSerializer(name);
+        this.registry.sender.send(buildSignal(this.path, iface, name, serializer, args));
+    }
+}
+
+const errorMessageSerializer = new StructSerializer(parseSignature(DataType.String));
+
+function beginReply(call: Reader, kind: MessageKind): MessageBuilder {
+    const message = new MessageBuilder(kind);
+    message.setHeader(Header.ReplySerial, DataType.Unsigned32, call.getSerial());
+
+    const sender = call.getHeader(Header.Sender) as string | undefined;
+    if (sender)
+        message.setHeader(Header.Destination, DataType.String, sender);
+
+    return message;
+}
+
+export function buildReturn(call: Reader, serializer: Serializer | null, values: ReadonlyArray<Value>): ArrayBuffer {
+    const message = beginReply(call, MessageKind.Return);
+    return serializer ? message.build(serializer, values) : message.build();
+}
+
+export function buildError(call: Reader, error: DBusError): ArrayBuffer {
+    const message = beginReply(call, MessageKind.Error);
+    message.setHeader(Header.ErrorName, DataType.String, error.errorName);
+    return message.build(errorMessageSerializer, [error.message]);
+}
+
+function toDBusError(error: unknown): DBusError {
+    if (error instanceof DBusError)
+        return error;
+
+    return new DBusError(ErrorName.Failed, error instanceof Error ? error.message : String(error));
+}
+
+// Errors that can't be put in a message as they are, such as with an invalid name, are replied to as a plain failure
+function buildFailure(call: Reader, error: unknown): ArrayBuffer {
+    try {
+        return buildError(call, toDBusError(error));
+    } catch {
+        return buildError(call, new DBusError(ErrorName.Failed, "The method failed with an error that cannot be sent"));
+    }
+}
+
+const introspectSerializer = new StructSerializer(parseSignature(DataType.String));
+
+/**
+ * The objects exported on a connection, and dispatch of method calls to them
+ */
+export class ObjectRegistry {
+    private readonly objects = new Map<string, ExportedObject>();
+
+    constructor(readonly sender: MessageSender) {
+        // do nothing
+    }
+
+    add(path: string, interfaces: ReadonlyArray<InterfaceDeclaration>): ExportedObject {
+        if (!isValidObjectPath(path))
+            throw new Error(`Invalid object path: "${path}"`);
+
+        if (this.objects.has(path))
+            throw new Error(`An object is already exported at ${path}`);
+
+        const result = new ExportedObject(this, path, interfaces);
+        this.objects.set(path, result);
+        return result;
+    }
+
+    remove(path: string): boolean {
+        return this.objects.delete(path);
+    }
+
+    get(path: string): ExportedObject | undefined {
+        return this.objects.get(path);
+    }
+
+    /**
+     * Names of the nodes directly below path that either are or contain exported objects
+     */
+    getChildNames(path: string): string[] {
+        const prefix = path.endsWith("/") ? path : `${path}/`;
+        const result = new Set<string>();
+        for (const candidate of this.objects.keys())
+            if (candidate.startsWith(prefix) && candidate.length > prefix.length)
+                result.add(candidate.slice(prefix.length).split("/", 1)[0]);
+
+        return Array.from(result);
+    }
+
+    introspect(path: string): string {
+        const node: NodeDefinition = {
+            interface: this.objects.get(path)?.describe() || [],
+            node: this.getChildNames(path).map(name => ({name})),
+        };
+
+        return formatIntrospection(node);
+    }
+
+    dispatch(call: Reader): void {
+        const headers = call.getHeaders();
+        const path = headers[Header.Path] as string;
+        const iface = headers[Header.Interface] as string | undefined;
+        const member = headers[Header.Member] as string;
+        const signature = headers[Header.Signature] as string || "";
+
+        const reply = Promise.resolve()
+            .then(() => this.invoke(call, path, iface, member, signature))
+            .then(([serializer, values]) => buildReturn(call, serializer, values))
+            .catch(e => buildFailure(call, e));
+
+        // a reply that can't be built or sent has nowhere else to go
+        reply.then(message => {
+            if (!(call.getFlags() & Flag.NoReplyExpected))
+                this.sender.send(message);
+        }).catch(() => undefined);
+    }
+
+    private invoke(
+        call: Reader,
+        path: string,
+        iface: string | undefined,
+        member: string,
+        signature: string,
+    ): Promise<[Serializer | null, ReadonlyArray<Value>]> {
+        const target = this.objects.get(path);
+        if (!target) {
+            // nodes containing exported objects must be introspectable for tools to walk the tree
+            const isIntrospect = member === "Introspect" && (!iface || iface === introspectableInterfaceName);
+            if (isIntrospect && this.getChildNames(path).length)
+                return Promise.resolve([introspectSerializer, [this.introspect(path)]]);
+
+            return Promise.reject(new DBusError(ErrorName.UnknownObject, `No object at ${path}`));
+        }
+
+        const method = target.findMethod(iface, member);
+        if (method instanceof DBusError)
+            return Promise.reject(method);
+
+        if (method.inputSignature !== signature) {
+            return Promise.reject(new DBusError(
+                ErrorName.InvalidArgs,
+                `Expected arguments of signature "${method.inputSignature}" but got "${signature}"`));
+        }
+
+        const args = call.readBody(method.inputDeserializer);
+        return method.invoke(args).then(values => [method.outputSerializer, values]);
+    }
+}
@@ -0,0 +1,82 @@
+import {readFile} from "fs/promises";
+
+import type {ExportedObject, InterfaceDeclaration} from "./service";
+import type {Value, Variant} from "./serialization";
+
+export const introspectableInterfaceName = "org.freedesktop.DBus.Introspectable";
+export const peerInterfaceName = "org.freedesktop.DBus.Peer";
+export const propertiesInterfaceName = "org.freedesktop.DBus.Properties";
+
+let machineID: Promise<string> | undefined;
+
+function getMachineID(): Promise<string> {
+    if (!machineID) {
+        machineID = readFile("/etc/machine-id", "utf8")
+            .catch(() => readFile("/var/lib/dbus/machine-id", "utf8"))
+            .then(v => v.trim());
+    }
+
+    return machineID;
+}
+
+/**
+ * The interfaces every exported object implements on top of its own
+ */
+export function getStandardInterfaces(object: ExportedObject): InterfaceDeclaration[] {
+    return [
+        {
+            name: introspectableInterfaceName,
+            methods: {
+                Introspect: {
+                    outputs: [{name: "xml_data", type: "s"}],
+                    handler: () => object.introspect(),
+                },
+            },
+        },
+        {
+            name: peerInterfaceName,
+            methods: {
+                Ping: {
+                    handler: () => undefined,
+                },
+                GetMachineId: {
+                    outputs: [{name: "machine_uuid", type: "s"}],
+                    handler: getMachineID,
+                },
+            },
+        },
+        {
+            name: propertiesInterfaceName,
+            methods: {
+                Get: {
+                    inputs: [{name: "interface_name", type: "s"}, {name: "property_name", type: "s"}],
+                    outputs: [{name: "value", type: "v"}],
+                    handler: (iface: Value, name: Value) => object.readProperty(iface as string, name as string),
+                },
+                Set: {
+                    inputs: [
+                        {name: "interface_name", type: "s"},
+                        {name: "property_name", type: "s"},
+                        {name: "value", type: "v"},
+                    ],
+                    handler: (iface: Value, name: Value, value: Value) =>
+                        object.writeProperty(iface as string, name as string, value as Variant),
+                },
+                GetAll: {
+                    inputs: [{name: "interface_name", type: "s"}],
+                    outputs: [{name: "props", type: "a{sv}"}],
+                    handler: (iface: Value) => object.readAllProperties(iface as string),
+                },
+            },
+            signals: {
+                PropertiesChanged: {
+                    arguments: [
+                        {name: "interface_name", type: "s"},
+                        {name: "changed_properties", type: "a{sv}"},
+                        {name: "invalidated_properties", type: "as"},
+                    ],
+                },
+            },
+        },
+    ];
+}
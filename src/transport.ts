@@ -1,10 +1,47 @@
+import {randomBytes} from "crypto";
+import {readFile} from "fs/promises";
 import {createConnection, type Socket} from "net";
 
 import {DataType} from ".";
+import {type AuthOptions, type AuthResult, authenticate} from "./auth";
+import {CancelledError, DBusError, ErrorName, TimeoutError} from "./errors";
+import {MessageFramer} from "./framing";
 import {IntrospectionResult} from "./introspection";
-import {Builder as MessageBuilder, Header, Kind as MessageKind, Reader} from "./message";
-
-import type {Serializer, Value} from "./serialization";
+import {
+    type MatchRuleFields,
+    type MessageListener,
+    type Subscription,
+    MatchRule,
+} from "./match";
+import {
+    Builder as MessageBuilder,
+    Endianness as MessageEndianness,
+    Flag as MessageFlag,
+    Header,
+    Kind as MessageKind,
+    Reader,
+} from "./message";
+import {
+    type ConnectionCredentials,
+    type NameListener,
+    type NameWatchCallbacks,
+    type ReleaseNameReply,
+    type RequestNameReply,
+    type StartServiceReply,
+    NameWatcher,
+    parseCredentials,
+} from "./names";
+import {
+    type PropertyOptions,
+    PropertyCache,
+    requirePropertySpecification,
+    unwrapProperty,
+    wrapProperty,
+} from "./properties";
+import {InterfaceProxy} from "./proxy";
+import {type Serializer, type Value, type Variant, getBodySerializer} from "./serialization";
+import {type ExportedObject, type InterfaceDeclaration, ObjectRegistry, buildSignal} from "./service";
+import {propertiesInterfaceName} from "./standard";
 
 export interface UnixDomainAddress {
     transport: "unix";
@@ -25,7 +62,27 @@ export interface UnixDomainAbstractAddress {
     guid?: string;
 }
 
-export type Address = UnixDomainPathAddress | UnixDomainSocketAddress | UnixDomainAbstractAddress;
+export interface TcpAddress {
+    transport: "tcp";
+    host?: string;
+    port: string;
+    family?: "ipv4" | "ipv6";
+    guid?: string;
+}
+
+export interface NonceTcpAddress extends Omit<TcpAddress, "transport"> {
+    transport: "nonce-tcp";
+
+    // a file holding bytes to send first thing upon connecting, proving access to the file system
+    noncefile: string;
+}
+
+export type Address =
+    | UnixDomainPathAddress
+    | UnixDomainSocketAddress
+    | UnixDomainAbstractAddress
+    | TcpAddress
+    | NonceTcpAddress;
 
 function requireIndex(value: string, token: string, offset: number, error: string): number {
     const index = value.indexOf(token, offset);
@@ -35,7 +92,45 @@ function requireIndex(value: string, token: string, offset: number, error: strin
     return index;
 }
 
-export function parseAddress(value: string): Address {
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf8", {fatal: true});
+
+// Values in addresses have bytes other than [-0-9A-Za-z_/.\*] written as %xx
+function unescapeValue(value: string): string {
+    if (!value.includes("%"))
+        return value;
+
+    const bytes: number[] = [];
+    for (let index = 0; index < value.length;) {
+        const escapeIndex = value.indexOf("%", index);
+        const end = escapeIndex < 0 ? value.length : escapeIndex;
+        bytes.push(...textEncoder.encode(value.slice(index, end)));
+        if (escapeIndex < 0)
+            break;
+
+        const hex = value.slice(escapeIndex + 1, escapeIndex + 3);
+        if (!/^[0-9A-Fa-f]{2}$/.test(hex))
+            throw new Error(`Invalid escape sequence in dbus address value: ${value}`);
+
+        bytes.push(parseInt(hex, 16));
+        index = escapeIndex + 3;
+    }
+
+    return textDecoder.decode(new Uint8Array(bytes));
+}
+
+// Escape what unescapeValue unescapes
+function escapeValue(value: string): string {
+    let result = "";
+    for (const byte of textEncoder.encode(value)) {
+        const c = String.fromCharCode(byte);
+        result += /[-0-9A-Za-z_/.\\*]/.test(c) ? c : `%${byte.toString(16).padStart(2, "0")}`;
+    }
+
+    return result;
+}
+
+function parseParameters(value: string): Record<string, string> {
     let delimiterIndex = requireIndex(value, ":", 0, "Invalid dbus address, no transport indicator");
     const transport = value.slice(0, delimiterIndex);
     const params: Record<string, string> = {};
@@ -45,26 +140,113 @@ export function parseAddress(value: string): Address {
         const paramName = value.slice(delimiterIndex, valueIndex - 1);
         delimiterIndex = value.indexOf(",", delimiterIndex);
         if (delimiterIndex < 0) {
-            params[paramName] = value.slice(valueIndex);
+            params[paramName] = unescapeValue(value.slice(valueIndex));
             break;
         } else {
-            params[paramName] = value.slice(valueIndex, delimiterIndex);
+            params[paramName] = unescapeValue(value.slice(valueIndex, delimiterIndex));
         }
     }
 
-    switch (params.transport = transport) {
+    params.transport = transport;
+    return params;
+}
+
+function validateTcpParameters(params: Record<string, string>, listening: boolean): void {
+    const {port, family, transport} = params;
+    if (!port || !/^\d+$/.test(port) || port === "0" && !listening)
+        throw new Error(`Invalid ${transport} address, missing or invalid port`);
+
+    if (family && family !== "ipv4" && family !== "ipv6")
+        throw new Error(`Invalid ${transport} address, unknown family ${family}`);
+}
+
+/**
+ * Parse a single dbus address, such as unix:path=/run/user/1000/bus
+ */
+export function parseAddress(value: string): Address {
+    const params = parseParameters(value);
+    switch (params.transport) {
     case "unix":
         if (!params.path && !params.abstract)
             throw new Error("Invalid unix domain address, missing path");
 
         return params as unknown as Address;
 
+    case "nonce-tcp":
+        if (!params.noncefile)
+            throw new Error("Invalid nonce-tcp address, missing noncefile");
+
+    case "tcp":
+        validateTcpParameters(params, false);
+        return params as unknown as Address;
+
     default:
         throw new Error("Unsupported address type");
     }
 }
 
+/**
+ * Parse an address to listen on, which may leave the socket path or the port to be picked
+ *
+ * Supports unix addresses with path, abstract, dir, tmpdir or runtime=yes, and tcp addresses with port 0 or none.
+ */
+export function parseListenAddress(value: string): Address {
+    const params = parseParameters(value);
+    switch (params.transport) {
+    case "unix": {
+        const directory = params.dir || params.tmpdir || params.runtime === "yes" && process.env["XDG_RUNTIME_DIR"];
+        if (directory)
+            return {transport: "unix", path: `${directory}/dbus-${randomBytes(8).toString("hex")}`};
+
+        if (!params.path && !params.abstract)
+            throw new Error("Invalid unix domain address, missing path");
+
+        return params as unknown as Address;
+    }
+
+    case "tcp":
+        params.port = params.port || "0";
+        validateTcpParameters(params, true);
+        return params as unknown as Address;
+
+    default:
+        throw new Error("Unsupported listen address type");
+    }
+}
+
+/**
+ * Write an address the way parseAddress reads it
+ */
+export function formatAddress(address: Address): string {
+    const {transport, ...params} = address as unknown as Record<string, string | undefined>;
+    const parts = [];
+    for (const name of Object.keys(params)) {
+        const value = params[name];
+        if (value !== undefined)
+            parts.push(`${name}=${escapeValue(value)}`);
+    }
+
+    return `${transport}:${parts.join(",")}`;
+}
+
+/**
+ * Split a list of dbus addresses separated by semicolons, to be tried in order
+ */
+export function splitAddresses(value: string): string[] {
+    return value.split(";").filter(v => v);
+}
+
 function createSocket(address: Address): Socket {
+    switch (address.transport) {
+    case "tcp":
+    case "nonce-tcp":
+        return createConnection({
+            host: address.host || "localhost",
+            port: Number(address.port),
+            family: address.family === "ipv6" ? 6 : address.family === "ipv4" ? 4 : undefined,
+        });
+    }
+
     let path = (address as UnixDomainAbstractAddress).abstract;
     if (path)
         return createConnection(`\u0000${path}`);
@@ -73,56 +255,131 @@ function createSocket(address: Address): Socket {
     return createConnection(path);
 }
 
-export const enum AuthMethod {
-    External = "EXTERNAL",
-    Anonymous = "ANONYMOUS",
+// The contents of the nonce file of a nonce-tcp address, to be sent before anything else
+function readNonce(address: Address): Promise<Uint8Array | null> {
+    return address.transport === "nonce-tcp" ? readFile(address.noncefile) : Promise.resolve(null);
 }
 
 interface MessageHandler {
     (reader: Reader): void
 }
 
+interface PendingReply {
+    resolve(reader: Reader): void;
+    reject(error: Error): void;
+}
+
+export interface CallOptions {
+    // milliseconds to wait for a reply, 0 or Infinity to wait indefinitely
+    timeout?: number;
+    signal?: AbortSignal;
+}
+
+export interface SendOptions {
+    // tell the recipient of a call not to reply, the serial is still allocated as usual
+    noReply?: boolean;
+}
+
+export interface SignalOptions {
+    // the only connection to deliver to, rather than everyone subscribed
+    destination?: string;
+}
+
+export interface ConnectionOptions extends AuthOptions {
+    // milliseconds to wait for replies of calls that don't specify their own
+    timeout?: number;
+}
+
 export class Connection {
     private nextCallID = 32;
-    private responseHandlers = new Map<number, MessageHandler>();
-    private signalHandlers = new Map<string, MessageHandler>();
+    private responseHandlers = new Map<number, PendingReply>();
+    private callHandler?: MessageHandler;
+    private messageHandler?: MessageHandler;
+
+    // Same as the reference implementation
+    defaultTimeout: number = 25000;
+    private signalHandler?: MessageHandler;
+
+    // The unique name assigned by the bus in reply to Hello
+    private name?: string;
 
-    // The parts of a multi-part message
-    private receivedParts: Uint8Array[] = [];
+    // The outcome of authenticating with the server
+    private auth?: AuthResult;
 
-    // How many more bytes are needed before the next message is fully received
-    private receiveDue: number = 0;
+    // Cuts incoming data into messages
+    private readonly framer = new MessageFramer();
+
+    // Why this end broke the connection off, if it did, for pending calls to fail with
+    private closeReason?: Error;
+
+    // Set once closed by either end, nothing can be sent from then on
+    private ended = false;
+
+    constructor(private readonly socket: Socket, options?: ConnectionOptions) {
+        if (options?.timeout !== undefined)
+            this.defaultTimeout = options.timeout;
 
-    constructor(private readonly socket: Socket) {
         this.socket.addListener("data", this.onData.bind(this));
+        this.socket.once("close", this.onClose.bind(this));
+
+        // errors are followed by close, which fails whatever is pending
+        this.socket.on("error", () => undefined);
+    }
+
+    get uniqueName(): string | undefined {
+        return this.name;
+    }
+
+    /**
+     * The globally unique ID of the server
+     */
+    get guid(): string | undefined {
+        return this.auth?.guid;
+    }
+
+    /**
+     * Whether the server agreed to pass unix file descriptors
+     */
+    get unixFD(): boolean {
+        return !!this.auth?.unixFD;
+    }
+
+    /**
+     * Whether the connection was closed, by either end, so that nothing more can be sent
+     */
+    get closed(): boolean {
+        return this.ended || !this.socket.writable;
     }
 
     close(): void {
+        this.ended = true;
         this.socket.end();
     }
 
-    addSignalHandler(name: string, handler: MessageHandler): void {
-        this.signalHandlers.set(name, handler);
+    // What sending fails with once closed
+    private closedError(): Error {
+        return this.closeReason || new DBusError(ErrorName.Disconnected, "Connection is closed");
     }
 
-    private dispatchSignal(reader: Reader): void {
-        let signalName = ".";
-        for (let limit = reader.getHeaderFieldsSize(); reader.position < limit;) {
-            const [id,, value] = reader.readHeaderField();
-            switch (id) {
-            case Header.Interface:
-                signalName = value as string + signalName;
-                break;
+    /**
+     * Set the recipient of incoming signals
+     */
+    setSignalHandler(handler: MessageHandler): void {
+        this.signalHandler = handler;
+    }
 
-            case Header.Member:
-                signalName = signalName + value as string;
-                break;
-            }
-        }
+    /**
+     * Set the recipient of incoming method calls
+     */
+    setCallHandler(handler: MessageHandler): void {
+        this.callHandler = handler;
+    }
 
-        const handler = this.signalHandlers.get(signalName);
-        if (handler)
-            handler(reader);
+    /**
+     * Take every incoming message, replies included, instead of the call and signal handlers
+     */
+    setMessageHandler(handler: MessageHandler): void {
+        this.messageHandler = handler;
     }
 
     private dispatchReturn(reader: Reader): void {
@@ -130,188 +387,768 @@ export class Connection {
         if (messageID) {
             const handler = this.responseHandlers.get(messageID);
             if (handler) {
-                handler(reader);
                 this.responseHandlers.delete(messageID);
+                handler.resolve(reader);
             }
         }
     }
 
-    private onData(data: Uint8Array): void {
-        let view: DataView;
-
-        if (this.receiveDue) {
-            this.receivedParts.push(data);
-
-            if (this.receiveDue > data.byteLength) {
-                // Still need to read more, add this to the pile and wait
-                this.receiveDue -= data.byteLength;
-                return;
-            } else {
-                view = new DataView(Buffer.concat(this.receivedParts).buffer);
-                this.receiveDue = 0;
+    private dispatchError(reader: Reader): void {
+        const messageID = reader.getReplySerial();
+        if (messageID) {
+            const handler = this.responseHandlers.get(messageID);
+            if (handler) {
+                this.responseHandlers.delete(messageID);
+                const errorName = reader.getHeader(Header.ErrorName) as string;
+                handler.reject(DBusError.fromReply(reader, errorName));
             }
-        } else {
-            view = new DataView(data.buffer);
         }
+    }
 
-        // The data received might be multiple messages concatenated
-        do {
-            let reader = new Reader(view);
+    private onClose(): void {
+        this.ended = true;
+        const pending = Array.from(this.responseHandlers.values());
+        this.responseHandlers.clear();
+        for (const handler of pending)
+            handler.reject(this.closeReason
+                || new DBusError(ErrorName.Disconnected, "Connection closed before a reply arrived"));
+    }
+
+    // The other end is broken or hostile, either way the spec says to disconnect
+    private abort(reason: Error): void {
+        this.closeReason = reason;
+        this.socket.destroy();
+    }
+
+    private onData(data: Uint8Array): void {
+        let messages: DataView[];
+        try {
+            messages = this.framer.push(data);
+        } catch (e) {
+            this.abort(e as Error);
+            return;
+        }
 
-            const bodySize = reader.getBodySize();
-            const headerFieldsSize = reader.getHeaderFieldsSize();
-            const messageSize = 16 + 8 * Math.trunc((headerFieldsSize + 7) / 8) + bodySize;
+        for (const view of messages) {
+            const reader = new Reader(view);
 
-            // Handle incomplete message
-            if (messageSize > view.byteLength) {
-                this.receiveDue = messageSize - view.byteLength;
-                this.receivedParts = [new Uint8Array(view.buffer.slice(view.byteOffset))];
+            try {
+                reader.validate();
+            } catch (e) {
+                this.abort(e as Error);
                 return;
             }
 
-            reader = new Reader(new DataView(view.buffer, view.byteOffset, messageSize));
+            // types from later versions of the protocol are to be ignored
+            if (MessageKind[reader.getKind()] === undefined)
+                continue;
+
+            if (this.messageHandler)
+                this.messageHandler(reader);
+            else switch (reader.getKind()) {
+            case MessageKind.Call:
+                if (this.callHandler)
+                    this.callHandler(reader);
+
+                break;
 
-            switch (reader.getKind()) {
             case MessageKind.Signal:
-                this.dispatchSignal(reader);
+                if (this.signalHandler)
+                    this.signalHandler(reader);
+
                 break;
 
             case MessageKind.Return:
                 this.dispatchReturn(reader);
                 break;
-            }
 
-            view = new DataView(view.buffer, view.byteOffset + messageSize);
-        } while (view.byteLength);
+            case MessageKind.Error:
+                this.dispatchError(reader);
+                break;
+            }
+        }
     }
 
-    sendAndReceive(value: ArrayBuffer): Promise<Reader> {
+    private allocateSerial(value: ArrayBuffer): number {
         const callID = this.nextCallID;
-        this.nextCallID = callID > (1 << 31) ? 1 : callID + 1;
-        new DataView(value).setUint32(8, callID, true);
-        return new Promise(resolve => {
-            // TODO: Implement timeouts
-            this.responseHandlers.set(callID, resolve);
-            this.socket.write(new Uint8Array(value));
-        });
+        this.nextCallID = callID >= 0xFFFFFFFF ? 1 : callID + 1;
+        const view = new DataView(value);
+        view.setUint32(8, callID, view.getUint8(0) === MessageEndianness.Little);
+        return callID;
     }
 
-    private static tryExternalAuth(socket: Socket) {
-        const uid = process.getuid && process.getuid();
-        const id = Buffer.from(uid!.toString(), "ascii").toString("hex");
-        socket.write(`AUTH EXTERNAL ${id}\r\n`);
+    /**
+     * Send a message without waiting for any reply
+     *
+     * Throws if the connection is closed.
+     *
+     * @returns the serial assigned to the message
+     */
+    send(value: ArrayBuffer): number {
+        if (this.closed)
+            throw this.closedError();
+
+        const callID = this.allocateSerial(value);
+        this.socket.write(new Uint8Array(value));
+        return callID;
     }
 
-    private static textDecoder = new TextDecoder("utf8");
-    private static textDecodeOptions = {stream: true};
+    /**
+     * Send a message as is, serial included, such as one relayed from another connection
+     */
+    forward(value: ArrayBuffer): void {
+        this.socket.write(new Uint8Array(value));
+    }
 
-    private static handshake(
-        socket: Socket,
-        methods: string[],
-        resolve: (c: Connection) => void,
-        reject: (e: Error) => void,
-    ): void {
-        socket.write("\0");
-
-        function introduce(): void {
-            const message = new MessageBuilder(MessageKind.Call);
-            message.setHeader(Header.Path, DataType.ObjectPath, "/org/freedesktop/DBus");
-            message.setHeader(Header.Member, DataType.String, "Hello");
-            message.setHeader(Header.Interface, DataType.String, "org.freedesktop.DBus");
-            message.setHeader(Header.Destination, DataType.String, "org.freedesktop.DBus");
-
-            const connection = new Connection(socket);
-            connection.sendAndReceive(message.build())
-                .then(() => resolve(connection), reject);
-        }
+    sendAndReceive(value: ArrayBuffer, options?: CallOptions): Promise<Reader> {
+        if (this.closed)
+            return Promise.reject(this.closedError());
 
-        function proposeAuth(socket: Socket, method: string): void {
-            switch (method) {
-            case AuthMethod.External:
-                Connection.tryExternalAuth(socket);
-                break;
+        const callID = this.allocateSerial(value);
+        return new Promise((resolve, reject) => {
+            const signal = options?.signal;
+            if (signal?.aborted) {
+                reject(new CancelledError(signal.reason));
+                return;
+            }
 
-            case AuthMethod.Anonymous:
-                socket.write("AUTH ANONYMOUS \r\n");
-                break;
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const settle = () => {
+                this.responseHandlers.delete(callID);
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", onAbort);
+            };
 
-            default:
-                socket.removeListener("data", onHandshakeData);
-                reject(new Error(`Unsupported dbus auth method ${method}`));
-            }
-        }
+            const onAbort = () => {
+                settle();
+                reject(new CancelledError(signal!.reason));
+            };
 
-        let nextMethod = 0;
-        let bufferedText = "";
-        function onHandshakeData(data: Uint8Array): void {
-            bufferedText += Connection.textDecoder.decode(data, Connection.textDecodeOptions);
-            const delimiterIndex = bufferedText.indexOf("\r\n");
-            if (delimiterIndex > -1) {
-                if (bufferedText.startsWith("OK ")) {
-                    socket.removeListener("data", onHandshakeData);
-                    socket.write("BEGIN\r\n", introduce);
-                } else if (nextMethod === methods.length) {
-                    socket.removeListener("data", onHandshakeData);
-                    reject(new Error("No auth methods can be used"));
-                } else {
-                    proposeAuth(socket, methods[++nextMethod]);
-                }
-
-                bufferedText = bufferedText.slice(delimiterIndex + 2);
+            // Late replies find no handler and are dropped
+            const timeout = options?.timeout ?? this.defaultTimeout;
+            if (timeout > 0 && timeout < Infinity) {
+                timer = setTimeout(() => {
+                    settle();
+                    reject(new TimeoutError(timeout));
+                }, timeout);
             }
-        }
 
-        socket.addListener("data", onHandshakeData);
-        proposeAuth(socket, methods[0]);
+            signal?.addEventListener("abort", onAbort, {once: true});
+            this.responseHandlers.set(callID, {
+                resolve: reader => {
+                    settle();
+                    resolve(reader);
+                },
+                reject: error => {
+                    settle();
+                    reject(error);
+                },
+            });
+
+            this.socket.write(new Uint8Array(value));
+        });
     }
 
-    static open(address: Address): Promise<Connection> {
-        return new Promise((resolve, reject) => {
+    private static introduce(socket: Socket, auth: AuthResult, options?: ConnectionOptions): Promise<Connection> {
+        const message = new MessageBuilder(MessageKind.Call);
+        message.setHeader(Header.Path, DataType.ObjectPath, "/org/freedesktop/DBus");
+        message.setHeader(Header.Member, DataType.String, "Hello");
+        message.setHeader(Header.Interface, DataType.String, "org.freedesktop.DBus");
+        message.setHeader(Header.Destination, DataType.String, "org.freedesktop.DBus");
+
+        const connection = new Connection(socket, options);
+        connection.auth = auth;
+        return connection.sendAndReceive(message.build()).then(reader => {
+            connection.name = reader.readBody()[0] as string;
+            return connection;
+        });
+    }
+
+    /**
+     * Take over a socket a server authenticated a client on
+     *
+     * @param remainder what the client sent right after BEGIN
+     */
+    static accept(socket: Socket, auth: AuthResult, remainder: Uint8Array, options?: ConnectionOptions): Connection {
+        const connection = new Connection(socket, options);
+        connection.auth = auth;
+
+        // delivered once the taker of the connection had a chance to set handlers, yet before more data arrives
+        if (remainder.length)
+            process.nextTick(() => connection.onData(remainder));
+
+        return connection;
+    }
+
+    /**
+     * Connect and authenticate to a server
+     *
+     * @param hello whether to introduce this connection to a bus daemon, not wanted with a peer
+     */
+    static open(address: Address, options?: ConnectionOptions, hello: boolean = true): Promise<Connection> {
+        return readNonce(address).then(nonce => new Promise((resolve, reject) => {
             const socket = createSocket(address);
+            const onClose = () => reject(new Error("Connection closed before authentication completed"));
             socket.once("error", reject);
+            socket.once("close", onClose);
             socket.once("connect", () => {
-                Connection.handshake(socket, ["EXTERNAL", "ANONYMOUS"], resolve, reject);
-                socket.removeListener("error", reject);
+                // a server rejecting the nonce hangs up without a word
+                if (nonce)
+                    socket.write(nonce);
+
+                authenticate(socket, options, address.guid)
+                    .then(auth => hello
+                        ? Connection.introduce(socket, auth, options)
+                        : Connection.accept(socket, auth, new Uint8Array(0), options))
+                    .then(connection => {
+                        socket.removeListener("error", reject);
+                        socket.removeListener("close", onClose);
+                        resolve(connection);
+                    }, e => {
+                        socket.destroy();
+                        reject(e);
+                    });
             });
+        }));
+    }
+}
+
+const daemonName = "org.freedesktop.DBus";
+const daemonPath = "/org/freedesktop/DBus";
+
+interface MatchEntry {
+    readonly rule: MatchRule;
+    readonly listeners: Set<MessageListener>;
+
+    // the AddMatch call, settled before its RemoveMatch is sent
+    readonly added: Promise<unknown>;
+}
+
+interface NameOwnerEntry {
+    readonly watcher: NameWatcher;
+    refs: number;
+}
+
+// What a listener throws is reported as uncaught, without keeping other listeners or later messages from being seen
+function notifyListener(listener: MessageListener, reader: Reader): void {
+    try {
+        listener(reader);
+    } catch (e) {
+        queueMicrotask(() => {
+            throw e;
         });
     }
 }
 
 export class Bus {
+    private readonly objects: ObjectRegistry;
+    private readonly matches = new Map<string, MatchEntry>();
+    private readonly nameOwners = new Map<string, NameOwnerEntry>();
+
     constructor(private readonly connection: Connection) {
-        // do nothing
+        this.objects = new ObjectRegistry(connection);
+        connection.setCallHandler(reader => this.objects.dispatch(reader));
+        connection.setSignalHandler(this.dispatchSignal.bind(this));
+    }
+
+    /**
+     * The name the bus assigned this connection, undefined when directly connected to a peer
+     */
+    get uniqueName(): string | undefined {
+        return this.connection.uniqueName;
+    }
+
+    // a connection that never said Hello is to a peer rather than a bus daemon, which routes nothing
+    private get peer(): boolean {
+        return this.connection.uniqueName === undefined;
+    }
+
+    close(): void {
+        this.connection.close();
+    }
+
+    /**
+     * Serve incoming method calls for the given interfaces at path
+     */
+    exportObject(path: string, interfaces: ReadonlyArray<InterfaceDeclaration>): ExportedObject {
+        return this.objects.add(path, interfaces);
+    }
+
+    unexportObject(path: string): boolean {
+        return this.objects.remove(path);
     }
 
-    introspect(path: string, service: string): Promise<IntrospectionResult> {
+    private buildCall(service: string, path: string, iface: string, member: string): MessageBuilder {
         const message = new MessageBuilder(MessageKind.Call);
-        message.setHeader(Header.Interface, DataType.String, "org.freedesktop.DBus.Introspectable");
-        message.setHeader(Header.Member, DataType.String, "Introspect");
-        message.setHeader(Header.Destination, DataType.String, service);
+        message.setHeader(Header.Interface, DataType.String, iface);
+        message.setHeader(Header.Member, DataType.String, member);
         message.setHeader(Header.Path, DataType.ObjectPath, path);
 
-        return this.invoke(message).then(reader => {
+        // peers take calls addressed to nobody in particular
+        if (service)
+            message.setHeader(Header.Destination, DataType.String, service);
+
+        return message;
+    }
+
+    /**
+     * Invoke a method and decode its reply
+     *
+     * @param service the name of the recipient, empty when connected to a peer
+     * @param signature the concatenated types of the arguments
+     */
+    call(
+        service: string,
+        path: string,
+        iface: string,
+        member: string,
+        signature: string = "",
+        args: ReadonlyArray<Value> = [],
+        options?: CallOptions,
+    ): Promise<ReadonlyArray<Value>> {
+        // invalid names, paths or arguments reject rather than throw
+        return Promise.resolve().then(() => {
+            const message = this.buildCall(service, path, iface, member);
+            return signature
+                ? this.invoke(message, getBodySerializer(signature), args, options)
+                : this.invoke(message, options);
+        }).then(reader => reader.readBody());
+    }
+
+    introspect(path: string, service: string, options?: CallOptions): Promise<IntrospectionResult> {
+        return Promise.resolve().then(() => {
+            const message = this.buildCall(service, path, "org.freedesktop.DBus.Introspectable", "Introspect");
+            return this.invoke(message, options);
+        }).then(reader => {
             reader.skipToBody();
             const xml = reader.readString();
             return IntrospectionResult.parse(xml);
         });
     }
 
-    invoke(message: MessageBuilder): Promise<Reader>;
-    invoke(message: MessageBuilder, serializer: Serializer, args: ReadonlyArray<Value>): Promise<Reader>
-    invoke(message: MessageBuilder, serializer?: Serializer, args?: ReadonlyArray<Value>): Promise<Reader> {
-        return this.connection.sendAndReceive(message.build(serializer!, args!));
+    invoke(message: MessageBuilder, options?: CallOptions): Promise<Reader>;
+    invoke(
+        message: MessageBuilder,
+        serializer: Serializer,
+        args: ReadonlyArray<Value>,
+        options?: CallOptions,
+    ): Promise<Reader>;
+    invoke(
+        message: MessageBuilder,
+        serializer?: Serializer | CallOptions,
+        args?: ReadonlyArray<Value>,
+        options?: CallOptions,
+    ): Promise<Reader> {
+        if (args)
+            return this.connection.sendAndReceive(message.build(serializer as Serializer, args), options);
+
+        return this.connection.sendAndReceive(message.build(), serializer as CallOptions);
+    }
+
+    /**
+     * Send a message without waiting for any reply
+     *
+     * @returns the serial the message was sent with
+     */
+    send(message: MessageBuilder, options?: SendOptions): number;
+    send(message: MessageBuilder, serializer: Serializer, args: ReadonlyArray<Value>, options?: SendOptions): number;
+    send(
+        message: MessageBuilder,
+        serializer?: Serializer | SendOptions,
+        args?: ReadonlyArray<Value>,
+        options?: SendOptions,
+    ): number {
+        if (!args)
+            options = serializer as SendOptions | undefined;
+
+        const value = args ? message.build(serializer as Serializer, args) : message.build();
+
+        // on the message as built, the builder is left as the caller had it
+        if (options?.noReply)
+            new Uint8Array(value)[2] |= MessageFlag.NoReplyExpected;
+
+        return this.connection.send(value);
+    }
+
+    /**
+     * Emit a signal, to everyone subscribed to it unless given a destination
+     *
+     * @param signature the concatenated types of the arguments
+     */
+    emitSignal(
+        path: string,
+        iface: string,
+        member: string,
+        signature: string = "",
+        args: ReadonlyArray<Value> = [],
+        options?: SignalOptions,
+    ): void {
+        const serializer = signature ? getBodySerializer(signature) : null;
+        this.connection.send(buildSignal(path, iface, member, serializer, args, options?.destination));
+    }
+
+    private callDaemon(
+        member: string,
+        signature?: string,
+        args?: ReadonlyArray<Value>,
+        options?: CallOptions,
+    ): Promise<ReadonlyArray<Value>> {
+        return this.call(daemonName, daemonPath, daemonName, member, signature, args, options);
+    }
+
+    private dispatchSignal(reader: Reader): void {
+        const kind = reader.getKind();
+        const headers = reader.getHeaders();
+
+        let body: ReadonlyArray<Value> | undefined;
+        const getBody = () => body || (body = reader.readBody());
+        const resolveName = (name: string) => this.nameOwners.get(name)?.watcher.owner;
+
+        // listeners may subscribe or unsubscribe as they go
+        for (const entry of Array.from(this.matches.values()))
+            if (entry.rule.matches(kind, headers, getBody, resolveName))
+                for (const listener of Array.from(entry.listeners))
+                    notifyListener(listener, new Reader(reader.view));
+    }
+
+    // keep track of who owns a well-known name, to tell whether signals come from it
+    private retainNameOwner(name: string): void {
+        const entry = this.nameOwners.get(name);
+        if (entry)
+            ++entry.refs;
+        else
+            this.nameOwners.set(name, {watcher: new NameWatcher(this, name, {}), refs: 1});
+    }
+
+    private releaseNameOwner(name: string): void {
+        const entry = this.nameOwners.get(name)!;
+        if (--entry.refs)
+            return;
+
+        this.nameOwners.delete(name);
+        entry.watcher.close();
+    }
+
+    private unlisten(key: string, listener: MessageListener): Promise<void> {
+        const entry = this.matches.get(key)!;
+        entry.listeners.delete(listener);
+        if (entry.listeners.size)
+            return Promise.resolve();
+
+        this.matches.delete(key);
+        if (this.peer)
+            return Promise.resolve();
+
+        // a failed AddMatch has nothing to remove
+        return entry.added.then(
+            () => this.callDaemon("RemoveMatch", "s", [key]).then(() => undefined),
+            () => undefined);
+    }
+
+    /**
+     * Listen to messages matching a rule, asking the bus to route them here
+     *
+     * The bus is only asked once for any number of subscriptions sharing the same rule.
+     */
+    subscribe(rule: MatchRule | MatchRuleFields, handler: MessageListener): Subscription {
+        const matchRule = rule instanceof MatchRule ? rule : new MatchRule(rule);
+        const key = matchRule.toString();
+
+        let entry = this.matches.get(key);
+        if (!entry) {
+            const added = this.peer ? Promise.resolve() : this.callDaemon("AddMatch", "s", [key]);
+            entry = {rule: matchRule, listeners: new Set(), added};
+            this.matches.set(key, entry);
+        }
+
+        // each subscription gets its own listener even if handlers are shared
+        const listener: MessageListener = reader => handler(reader);
+        entry.listeners.add(listener);
+
+        const sender = this.peer ? undefined : matchRule.wellKnownSender;
+        if (sender)
+            this.retainNameOwner(sender);
+
+        const ready = entry.added.then(() => undefined);
+        ready.catch(() => undefined);
+
+        let disposed = false;
+        return {
+            rule: matchRule,
+            ready,
+            dispose: () => {
+                if (disposed)
+                    return Promise.resolve();
+
+                disposed = true;
+                if (sender)
+                    this.releaseNameOwner(sender);
+
+                return this.unlisten(key, listener);
+            },
+        };
+    }
+
+    addSignalListener(iface: string, member: string, handler: MessageListener): Subscription {
+        return this.subscribe({type: "signal", interface: iface, member}, handler);
     }
 
-    addSignalListener(iface: string, member: string, handler: MessageHandler): void {
-        this.connection.addSignalHandler(`${iface}.${member}`, handler);
+    /**
+     * Ask the bus for ownership of a well-known name, so exported objects can be addressed by it
+     *
+     * @param flags a combination of RequestNameFlag
+     */
+    requestName(name: string, flags: number = 0, options?: CallOptions): Promise<RequestNameReply> {
+        return this.callDaemon("RequestName", "su", [name, flags], options).then(([reply]) => reply as RequestNameReply);
     }
+
+    releaseName(name: string, options?: CallOptions): Promise<ReleaseNameReply> {
+        return this.callDaemon("ReleaseName", "s", [name], options).then(([reply]) => reply as ReleaseNameReply);
+    }
+
+    /**
+     * Get the unique name of the connection owning a name, null if it has no owner
+     */
+    getNameOwner(name: string, options?: CallOptions): Promise<string | null> {
+        return this.callDaemon("GetNameOwner", "s", [name], options).then(
+            ([owner]) => owner as string,
+            (e: Error) => {
+                if (e instanceof DBusError && e.errorName === ErrorName.NameHasNoOwner)
+                    return null;
+
+                throw e;
+            });
+    }
+
+    /**
+     * List the names currently on the bus, unique names included
+     */
+    listNames(options?: CallOptions): Promise<string[]> {
+        return this.callDaemon("ListNames", "", [], options).then(([names]) => names as string[]);
+    }
+
+    /**
+     * List the names the bus can start a service for on demand
+     */
+    listActivatableNames(options?: CallOptions): Promise<string[]> {
+        return this.callDaemon("ListActivatableNames", "", [], options).then(([names]) => names as string[]);
+    }
+
+    nameHasOwner(name: string, options?: CallOptions): Promise<boolean> {
+        return this.callDaemon("NameHasOwner", "s", [name], options).then(([result]) => result as boolean);
+    }
+
+    /**
+     * Ask the bus to start the service for an activatable name
+     */
+    startServiceByName(name: string, options?: CallOptions): Promise<StartServiceReply> {
+        return this.callDaemon("StartServiceByName", "su", [name, 0], options)
+            .then(([reply]) => reply as StartServiceReply);
+    }
+
+    /**
+     * Add to the environment of services the bus starts from now on
+     */
+    updateActivationEnvironment(environment: ReadonlyMap<string, string>, options?: CallOptions): Promise<void> {
+        return this.callDaemon("UpdateActivationEnvironment", "a{ss}", [environment], options).then(() => undefined);
+    }
+
+    getConnectionUnixUser(name: string, options?: CallOptions): Promise<number> {
+        return this.callDaemon("GetConnectionUnixUser", "s", [name], options).then(([uid]) => uid as number);
+    }
+
+    getConnectionUnixProcessID(name: string, options?: CallOptions): Promise<number> {
+        return this.callDaemon("GetConnectionUnixProcessID", "s", [name], options).then(([pid]) => pid as number);
+    }
+
+    getConnectionCredentials(name: string, options?: CallOptions): Promise<ConnectionCredentials> {
+        return this.callDaemon("GetConnectionCredentials", "s", [name], options)
+            .then(([values]) => parseCredentials(values as Map<string, Variant>));
+    }
+
+    /**
+     * Get the globally unique ID of the bus
+     */
+    getId(options?: CallOptions): Promise<string> {
+        return this.callDaemon("GetId", "", [], options).then(([id]) => id as string);
+    }
+
+    private addDaemonSignalListener(member: string, listener: NameListener): Subscription {
+        return this.subscribe({
+            type: "signal",
+            sender: daemonName,
+            interface: daemonName,
+            member,
+        }, reader => listener(reader.readBody()[0] as string));
+    }
+
+    /**
+     * Listen to this connection becoming the owner of names
+     */
+    onNameAcquired(listener: NameListener): Subscription {
+        return this.addDaemonSignalListener("NameAcquired", listener);
+    }
+
+    /**
+     * Listen to this connection losing names, such as to another requesting one with ReplaceExisting
+     */
+    onNameLost(listener: NameListener): Subscription {
+        return this.addDaemonSignalListener("NameLost", listener);
+    }
+
+    /**
+     * Follow a well-known name as it gets and loses owners
+     */
+    watchName(name: string, callbacks: NameWatchCallbacks): NameWatcher {
+        return new NameWatcher(this, name, callbacks);
+    }
+
+    getProperty(service: string, path: string, iface: string, name: string, options?: PropertyOptions): Promise<Value> {
+        return Promise.resolve().then(() => {
+            const specification = options?.specification
+                && requirePropertySpecification(options.specification, iface, name, "read");
+
+            return this.call(service, path, propertiesInterfaceName, "Get", "ss", [iface, name], options)
+                .then(([value]) => unwrapProperty(value, specification));
+        });
+    }
+
+    /**
+     * Set a property, typed as specified if a specification is given, otherwise as given by a Variant or
+     * inferred from the value
+     */
+    setProperty(
+        service: string,
+        path: string,
+        iface: string,
+        name: string,
+        value: Value,
+        options?: PropertyOptions,
+    ): Promise<void> {
+        return Promise.resolve().then(() => {
+            const specification = options?.specification
+                && requirePropertySpecification(options.specification, iface, name, "write");
+
+            const variant = wrapProperty(value, specification);
+            return this.call(service, path, propertiesInterfaceName, "Set", "ssv", [iface, name, variant], options)
+                .then(() => undefined);
+        });
+    }
+
+    getAllProperties(
+        service: string,
+        path: string,
+        iface: string,
+        options?: PropertyOptions,
+    ): Promise<Map<string, Value>> {
+        return this.call(service, path, propertiesInterfaceName, "GetAll", "s", [iface], options).then(([values]) => {
+            const result = new Map<string, Value>();
+            for (const [name, value] of values as Map<string, Variant>) {
+                const specification = options?.specification?.getProperty(name) || undefined;
+                result.set(name, unwrapProperty(value, specification));
+            }
+
+            return result;
+        });
+    }
+
+    /**
+     * Get all properties of an interface of a remote object, and keep them updated as they change
+     */
+    trackProperties(service: string, path: string, iface: string, options?: CallOptions): Promise<PropertyCache> {
+        const cache = new PropertyCache(this, service, path, iface);
+
+        // subscribe first so no change between reading and subscribing goes unnoticed
+        return cache.ready
+            .then(() => cache.refresh(options))
+            .then(() => cache, (e: Error) => cache.close().then(() => Promise.reject(e)));
+    }
+
+    /**
+     * Introspect a remote object once and get a proxy to call, listen to and access the properties of an interface
+     */
+    getProxy(service: string, path: string, iface: string, options?: CallOptions): Promise<InterfaceProxy> {
+        return this.introspect(path, service, options).then(result => {
+            const specification = result.getInterface(iface);
+            if (!specification)
+                throw new DBusError(ErrorName.UnknownInterface, `Object ${path} of ${service} has no interface ${iface}`);
+
+            return new InterfaceProxy(this, service, path, iface, specification);
+        });
+    }
+}
+
+function openFirst(
+    addresses: ReadonlyArray<string>,
+    index: number,
+    options: ConnectionOptions | undefined,
+    hello: boolean,
+): Promise<Connection> {
+    // addresses that can't be parsed or connected to are skipped, the last failure is reported
+    return Promise.resolve()
+        .then(() => Connection.open(parseAddress(addresses[index]), options, hello))
+        .catch(e => index + 1 < addresses.length ? openFirst(addresses, index + 1, options, hello) : Promise.reject(e));
 }
 
-export function sessionBus(): Promise<Bus> {
-    const addressVar = process.env["DBUS_SESSION_BUS_ADDRESS"];
-    if (!addressVar)
-        throw new Error("DBus session address environment variable is unset");
+function openAny(addresses: string, options: ConnectionOptions | undefined, hello: boolean): Promise<Bus> {
+    const candidates = splitAddresses(addresses);
+    if (!candidates.length)
+        return Promise.reject(new Error("No dbus address to connect to"));
+
+    return openFirst(candidates, 0, options, hello).then(v => new Bus(v));
+}
+
+/**
+ * Connect to the first address of a list that works
+ *
+ * @param addresses addresses separated by semicolons, as in DBUS_SESSION_BUS_ADDRESS
+ */
+export function openBus(addresses: string, options?: ConnectionOptions): Promise<Bus> {
+    return openAny(addresses, options, true);
+}
+
+/**
+ * Connect directly to a peer listening with a Server rather than to a bus daemon
+ *
+ * Calls go to the peer whatever their destination, and signals from it arrive without asking for them.
+ */
+export function openPeer(addresses: string, options?: ConnectionOptions): Promise<Bus> {
+    return openAny(addresses, options, false);
+}
+
+export function sessionBus(options?: ConnectionOptions): Promise<Bus> {
+    let address = process.env["DBUS_SESSION_BUS_ADDRESS"];
+    if (!address) {
+        const runtimeDir = process.env["XDG_RUNTIME_DIR"];
+        if (!runtimeDir)
+            return Promise.reject(new Error("DBus session address environment variable is unset"));
+
+        address = formatAddress({transport: "unix", path: `${runtimeDir}/bus`});
+    }
+
+    return openBus(address, options);
+}
+
+export function systemBus(options?: ConnectionOptions): Promise<Bus> {
+    const address = process.env["DBUS_SYSTEM_BUS_ADDRESS"] || "unix:path=/var/run/dbus/system_bus_socket";
+    return openBus(address, options);
+}
+
+/**
+ * Connect to the bus that started this process through service activation
+ */
+export function starterBus(options?: ConnectionOptions): Promise<Bus> {
+    const address = process.env["DBUS_STARTER_ADDRESS"];
+    if (address)
+        return openBus(address, options);
+
+    switch (process.env["DBUS_STARTER_BUS_TYPE"]) {
+    case "session":
+        return sessionBus(options);
+
+    case "system":
+        return systemBus(options);
+    }
 
-    const address = parseAddress(addressVar);
-    return Connection.open(address).then(v => new Bus(v));
+    return Promise.reject(new Error("DBus starter address environment variable is unset"));
 }
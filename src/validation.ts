@@ -0,0 +1,57 @@
+import {parseSignature} from "./serialization";
+
+// Limits set by the specification
+export const maxMessageSize = 1 << 27;
+export const maxArraySize = 1 << 26;
+export const maxNameLength = 255;
+export const maxSignatureLength = 255;
+
+// how deep arrays, and separately structs, may nest
+export const maxNestingDepth = 32;
+
+// how deep containers may nest within a message in total, through variants included
+export const maxTotalNestingDepth = 64;
+
+const objectPathPattern = /^\/([A-Za-z0-9_]+(\/[A-Za-z0-9_]+)*)?$/;
+const memberPattern = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const interfacePattern = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)+$/;
+const uniqueNamePattern = /^:[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)+$/;
+const wellKnownNamePattern = /^[A-Za-z_-][A-Za-z0-9_-]*(\.[A-Za-z_-][A-Za-z0-9_-]*)+$/;
+
+export function isValidObjectPath(value: string): boolean {
+    return objectPathPattern.test(value);
+}
+
+export function isValidInterfaceName(value: string): boolean {
+    return value.length <= maxNameLength && interfacePattern.test(value);
+}
+
+/**
+ * Error names follow the same rules as interface names
+ */
+export function isValidErrorName(value: string): boolean {
+    return isValidInterfaceName(value);
+}
+
+export function isValidMemberName(value: string): boolean {
+    return value.length <= maxNameLength && memberPattern.test(value);
+}
+
+/**
+ * Check a unique connection name, such as :1.42, or a well-known name, such as org.example.Service
+ */
+export function isValidBusName(value: string): boolean {
+    return value.length <= maxNameLength && (uniqueNamePattern.test(value) || wellKnownNamePattern.test(value));
+}
+
+/**
+ * Check a signature of zero or more complete types
+ */
+export function isValidSignature(value: string): boolean {
+    try {
+        parseSignature(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
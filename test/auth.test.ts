@@ -0,0 +1,166 @@
+import assert from "assert";
+import {createHash} from "crypto";
+import {mkdtemp, rm, writeFile} from "fs/promises";
+import {type AddressInfo, type Socket, createConnection, createServer} from "net";
+import {tmpdir} from "os";
+import {join} from "path";
+import {describe, it} from "node:test";
+
+import {type AuthOptions, type AuthResult, anonymousAuth, cookieSha1Auth, externalAuth} from "../src";
+import {authenticate} from "../src/auth";
+
+const guid = "0123456789abcdef0123456789abcdef";
+
+// Answers a line from the client with the lines to send back, if any
+type Script = (line: string) => string[];
+
+// Authenticate against a server that follows a script, resolving to the outcome and every line the client sent
+function authenticateWith(
+    script: Script,
+    options: AuthOptions,
+    expectedGUID?: string,
+): Promise<[AuthResult | Error, string[]]> {
+    const lines: string[] = [];
+    const server = createServer(socket => {
+        let buffered = "";
+        socket.on("data", data => {
+            buffered += data.toString("latin1").replace(/^\0/, "");
+
+            let delimiterIndex;
+            while ((delimiterIndex = buffered.indexOf("\r\n")) > -1) {
+                const line = buffered.slice(0, delimiterIndex);
+                buffered = buffered.slice(delimiterIndex + 2);
+                lines.push(line);
+                for (const reply of script(line))
+                    socket.write(`${reply}\r\n`);
+            }
+        });
+    });
+
+    return new Promise<Socket>(resolve => server.listen(0, "127.0.0.1", () => {
+        const socket = createConnection((server.address() as AddressInfo).port, "127.0.0.1");
+        socket.once("connect", () => resolve(socket));
+    })).then(socket => authenticate(socket, options, expectedGUID)
+        .then(result => result, (e: Error) => e)
+        .then(outcome => {
+            socket.destroy();
+            return new Promise<[AuthResult | Error, string[]]>(resolve => server.close(() => resolve([outcome, lines])));
+        }));
+}
+
+// A server offering ANONYMOUS only
+function anonymousOnly(line: string): string[] {
+    if (line === "AUTH ANONYMOUS")
+        return [`OK ${guid}`];
+
+    if (line.startsWith("AUTH "))
+        return ["REJECTED ANONYMOUS"];
+
+    return [];
+}
+
+function toHex(value: string): string {
+    return Buffer.from(value).toString("hex");
+}
+
+describe("SaslClient", () => {
+    it("tries the methods the server lists in REJECTED", () => {
+        const options = {authMethods: [externalAuth(1000), anonymousAuth()]};
+        return authenticateWith(anonymousOnly, options).then(([result, lines]) => {
+            assert.deepStrictEqual(result, {guid, method: "ANONYMOUS", unixFD: false});
+            assert.deepStrictEqual(lines, [`AUTH EXTERNAL ${toHex("1000")}`, "AUTH ANONYMOUS", "BEGIN"]);
+        });
+    });
+
+    it("cancels a method the server answers with ERROR", () => {
+        const script = (line: string) => {
+            if (line.startsWith("AUTH EXTERNAL"))
+                return ["ERROR Not now"];
+
+            if (line === "CANCEL")
+                return ["REJECTED ANONYMOUS"];
+
+            return anonymousOnly(line);
+        };
+
+        const options = {authMethods: [externalAuth(1000), anonymousAuth()]};
+        return authenticateWith(script, options).then(([result, lines]) => {
+            assert.strictEqual((result as AuthResult).method, "ANONYMOUS");
+            assert.deepStrictEqual(lines, [`AUTH EXTERNAL ${toHex("1000")}`, "CANCEL", "AUTH ANONYMOUS", "BEGIN"]);
+        });
+    });
+
+    it("gives up when no method is left", () => {
+        const options = {authMethods: [externalAuth(1000)]};
+        return authenticateWith(anonymousOnly, options).then(([result]) => {
+            assert.ok(result instanceof Error);
+            assert.match(result.message, /No auth methods/);
+        });
+    });
+
+    it("rejects a server with a GUID other than expected", () => {
+        const options = {authMethods: [anonymousAuth()]};
+        return authenticateWith(anonymousOnly, options, "fedcba9876543210fedcba9876543210").then(([result, lines]) => {
+            assert.ok(result instanceof Error);
+            assert.match(result.message, /does not match/);
+            assert.ok(!lines.includes("BEGIN"));
+        });
+    });
+
+    it("negotiates passing unix file descriptors", () => {
+        const script = (line: string) => line === "NEGOTIATE_UNIX_FD" ? ["AGREE_UNIX_FD"] : anonymousOnly(line);
+        const options = {authMethods: [anonymousAuth()], negotiateUnixFD: true};
+        return authenticateWith(script, options).then(([result, lines]) => {
+            assert.deepStrictEqual(result, {guid, method: "ANONYMOUS", unixFD: true});
+            assert.deepStrictEqual(lines, ["AUTH ANONYMOUS", "NEGOTIATE_UNIX_FD", "BEGIN"]);
+        });
+    });
+
+    it("goes without unix file descriptors when the server refuses them", () => {
+        const script = (line: string) => line === "NEGOTIATE_UNIX_FD" ? ["ERROR No"] : anonymousOnly(line);
+        const options = {authMethods: [anonymousAuth()], negotiateUnixFD: true};
+        return authenticateWith(script, options).then(([result, lines]) => {
+            assert.deepStrictEqual(result, {guid, method: "ANONYMOUS", unixFD: false});
+            assert.deepStrictEqual(lines, ["AUTH ANONYMOUS", "NEGOTIATE_UNIX_FD", "BEGIN"]);
+        });
+    });
+
+    it("proves access to a cookie with DBUS_COOKIE_SHA1", () => {
+        const cookie = "0f1e2d3c4b5a69788796a5b4c3d2e1f0";
+        const serverChallenge = "4a3b2c1d";
+
+        let verified = false;
+        const script = (line: string) => {
+            if (line === `AUTH DBUS_COOKIE_SHA1 ${toHex("alice")}`)
+                return [`DATA ${toHex(`org_freedesktop_general 7 ${serverChallenge}`)}`];
+
+            if (line.startsWith("DATA ")) {
+                const [clientChallenge, digest] = Buffer.from(line.slice(5), "hex").toString("ascii").split(" ");
+                const expected = createHash("sha1").update(`${serverChallenge}:${clientChallenge}:${cookie}`);
+                verified = digest === expected.digest("hex");
+                return [verified ? `OK ${guid}` : "REJECTED DBUS_COOKIE_SHA1"];
+            }
+
+            return [];
+        };
+
+        return mkdtemp(join(tmpdir(), "dbusjs-keyrings-")).then(directory => {
+            const keyring = `6 1700000000 ${"0".repeat(32)}\n7 1700000000 ${cookie}\n`;
+            return writeFile(join(directory, "org_freedesktop_general"), keyring)
+                .then(() => authenticateWith(script, {authMethods: [cookieSha1Auth("alice", directory)]}))
+                .then(([result]) => {
+                    assert.ok(verified);
+                    assert.strictEqual((result as AuthResult).method, "DBUS_COOKIE_SHA1");
+                })
+                .finally(() => rm(directory, {recursive: true}));
+        });
+    });
+
+    it("gives up on a server that never answers", () => {
+        const options = {authMethods: [anonymousAuth()], authTimeout: 50};
+        return authenticateWith(() => [], options).then(([result]) => {
+            assert.ok(result instanceof Error);
+            assert.match(result.message, /within 50ms/);
+        });
+    });
+});
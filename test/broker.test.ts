@@ -0,0 +1,166 @@
+import assert from "assert";
+import {after, before, describe, it} from "node:test";
+
+import {
+    Broker,
+    MessageHeader,
+    MessageReader,
+    RequestNameReply,
+    anonymousAuth,
+    openBus,
+    parseAddress,
+} from "../src";
+import {Bus, Connection} from "../src/transport";
+
+describe("Broker", () => {
+    let broker: Broker;
+    let service: Bus;
+    let client: Bus;
+
+    before(() => Broker.start("unix:tmpdir=/tmp", {allowAnonymous: true}).then(started => {
+        broker = started;
+        const options = {authMethods: [anonymousAuth()]};
+        return Promise.all([openBus(broker.address, options), openBus(broker.address, options)]);
+    }).then(([first, second]) => {
+        service = first;
+        client = second;
+    }));
+
+    after(() => {
+        service.close();
+        client.close();
+        return broker.close();
+    });
+
+    it("names connections and identifies itself", () => {
+        assert.match(service.uniqueName!, /^:1\.\d+$/);
+        assert.notStrictEqual(service.uniqueName, client.uniqueName);
+        return client.getId().then(id => assert.strictEqual(id, broker.guid));
+    });
+
+    it("routes calls by well-known name", () => {
+        service.exportObject("/echo", [{
+            name: "org.example.Echo",
+            methods: {Echo: {inputs: [{type: "s"}], outputs: [{type: "s"}], handler: value => value}},
+        }]);
+
+        return service.requestName("org.example.Echo")
+            .then(reply => assert.strictEqual(reply, RequestNameReply.PrimaryOwner))
+            .then(() => client.call("org.example.Echo", "/echo", "org.example.Echo", "Echo", "s", ["hi"]))
+            .then(result => assert.deepStrictEqual(result, ["hi"]));
+    });
+
+    it("delivers signals only from the owner of a well-known sender", () => {
+        const received: string[] = [];
+        const subscription = client.subscribe({
+            type: "signal",
+            sender: "org.example.Echo",
+            interface: "org.example.Echo",
+        }, reader => received.push(reader.readBody()[0] as string));
+
+        // the name is owned by service, not by client
+        return subscription.ready
+            .then(() => {
+                client.emitSignal("/echo", "org.example.Echo", "Said", "s", ["impostor"]);
+                service.emitSignal("/echo", "org.example.Echo", "Said", "s", ["owner"]);
+                return new Promise(resolve => setTimeout(resolve, 50));
+            })
+            .then(() => assert.deepStrictEqual(received, ["owner"]))
+            .finally(() => subscription.dispose());
+    });
+
+    it("ignores PropertiesChanged signals not of the standard signature", () => {
+        let count = 1;
+        const exported = service.exportObject("/counter", [{
+            name: "org.example.Counter",
+            properties: {Count: {type: "u", access: "read", get: () => count}},
+        }]);
+
+        return client.trackProperties(service.uniqueName!, "/counter", "org.example.Counter").then(cache => {
+            assert.strictEqual(cache.get("Count"), 1);
+            service.emitSignal("/counter", "org.freedesktop.DBus.Properties", "PropertiesChanged", "s", [
+                "org.example.Counter",
+            ]);
+
+            count = 2;
+            return exported.emitPropertiesChanged("org.example.Counter", ["Count"])
+                .then(() => new Promise(resolve => setTimeout(resolve, 50)))
+                .then(() => assert.strictEqual(cache.get("Count"), 2))
+                .finally(() => cache.close());
+        }).finally(() => service.unexportObject("/counter"));
+    });
+
+    it("asks the bus once for subscriptions sharing a rule", () => {
+        const options = {authMethods: [anonymousAuth()]};
+        return Connection.open(parseAddress(broker.address), options).then(connection => {
+            // the match calls the bus is asked
+            const calls: string[] = [];
+            const sendAndReceive = connection.sendAndReceive.bind(connection);
+            connection.sendAndReceive = (value, callOptions) => {
+                const member = new MessageReader(new DataView(value)).getHeaders()[MessageHeader.Member] as string;
+                if (member.endsWith("Match"))
+                    calls.push(member);
+
+                return sendAndReceive(value, callOptions);
+            };
+
+            const bus = new Bus(connection);
+            const received: string[] = [];
+            const rule = {type: "signal", interface: "org.example.Echo", member: "Shared"} as const;
+            const first = bus.subscribe(rule, reader => received.push(`first ${reader.readBody()[0]}`));
+            const second = bus.subscribe(rule, reader => received.push(`second ${reader.readBody()[0]}`));
+
+            const emit = (value: string) => {
+                service.emitSignal("/echo", "org.example.Echo", "Shared", "s", [value]);
+                return new Promise(resolve => setTimeout(resolve, 50));
+            };
+
+            return Promise.all([first.ready, second.ready])
+                .then(() => emit("a"))
+                .then(() => {
+                    assert.deepStrictEqual(calls, ["AddMatch"]);
+                    assert.deepStrictEqual(received.sort(), ["first a", "second a"]);
+                    return first.dispose();
+                })
+                .then(() => emit("b"))
+                .then(() => {
+                    assert.deepStrictEqual(calls, ["AddMatch"]);
+                    assert.deepStrictEqual(received.slice(2), ["second b"]);
+                    return second.dispose();
+                })
+                .then(() => assert.deepStrictEqual(calls, ["AddMatch", "RemoveMatch"]))
+                .finally(() => bus.close());
+        });
+    });
+
+    it("keeps dispatching signals past a listener that throws", () => {
+        const received: string[] = [];
+        const rule = {type: "signal", interface: "org.example.Echo", member: "Thrown"} as const;
+        const failing = client.subscribe(rule, () => {
+            throw new Error("Listener failed");
+        });
+
+        const counting = client.subscribe(rule, reader => received.push(reader.readBody()[0] as string));
+
+        // what the listener throws is reported as uncaught, caught here instead
+        const reported: Array<() => void> = [];
+        const queueMicrotask = globalThis.queueMicrotask;
+        globalThis.queueMicrotask = callback => reported.push(callback);
+
+        return Promise.all([failing.ready, counting.ready])
+            .then(() => {
+                service.emitSignal("/echo", "org.example.Echo", "Thrown", "s", ["first"]);
+                service.emitSignal("/echo", "org.example.Echo", "Thrown", "s", ["second"]);
+                return new Promise(resolve => setTimeout(resolve, 50));
+            })
+            .then(() => {
+                assert.deepStrictEqual(received, ["first", "second"]);
+                assert.strictEqual(reported.length, 2);
+                assert.throws(reported[0], /Listener failed/);
+            })
+            .finally(() => {
+                globalThis.queueMicrotask = queueMicrotask;
+                return Promise.all([failing.dispose(), counting.dispose()]);
+            });
+    });
+});
@@ -0,0 +1,121 @@
+import assert from "assert";
+import {describe, it} from "node:test";
+import ts from "typescript";
+
+import {generateTypeScript, signatureToType} from "../src";
+
+const xml = `<node>
+  <interface name="org.example.Settings">
+    <method name="Update">
+      <arg name="values" type="a{sv}" direction="in"/>
+      <arg name="class" type="s" direction="in"/>
+      <arg name="options" type="(iu)" direction="in"/>
+      <arg type="ay" direction="out"/>
+      <arg name="stamp" type="x" direction="out"/>
+    </method>
+    <method name="Reset">
+      <annotation name="org.freedesktop.DBus.Deprecated" value="true"/>
+    </method>
+    <signal name="Changed">
+      <arg name="default" type="a{sv}"/>
+      <arg name="2nd" type="(iu)"/>
+    </signal>
+    <property name="Size" type="x" access="readwrite">
+      <annotation name="org.freedesktop.DBus.Deprecated" value="true"/>
+      <annotation name="org.freedesktop.DBus.Property.EmitsChangedSignal" value="invalidates"/>
+    </property>
+  </interface>
+  <interface name="org.example.Legacy">
+    <annotation name="org.freedesktop.DBus.Deprecated" value="true"/>
+    <property name="Names" type="as" access="read"/>
+  </interface>
+  <interface name="org.freedesktop.DBus.Peer">
+    <method name="Ping"/>
+  </interface>
+</node>`;
+
+// The doc comment right before a line starting with the given text
+function docBefore(code: string, start: string): string {
+    const lines = code.split("\n");
+    const index = lines.findIndex(l => l.trimStart().startsWith(start));
+    assert.ok(index > 0, `No line starting with ${start}`);
+
+    let first = index - 1;
+    while (first > 0 && !lines[first].trimStart().startsWith("/**"))
+        --first;
+
+    return lines.slice(first, index).map(l => l.trim()).join("\n");
+}
+
+describe("signatureToType", () => {
+    const cases: Array<[string, string]> = [
+        ["a{sv}", "Map<string, Variant>"],
+        ["(iu)", "[number, number]"],
+        ["ay", "Uint8Array"],
+        ["x", "bigint"],
+        ["t", "bigint"],
+        ["as", "string[]"],
+        ["a(ii)", "Array<[number, number]>"],
+        ["aay", "Uint8Array[]"],
+        ["a{oa{sv}}", "Map<string, Map<string, Variant>>"],
+    ];
+
+    for (const [signature, type] of cases)
+        it(`maps ${signature} to ${type}`, () => assert.strictEqual(signatureToType(signature), type));
+
+    for (const signature of ["", "ii", "(", "()", "a", "a{s}", "z"])
+        it(`rejects ${JSON.stringify(signature)}`, () => assert.throws(() => signatureToType(signature)));
+});
+
+describe("generateTypeScript", () => {
+    const code = generateTypeScript([xml]);
+
+    it("generates valid TypeScript", () => {
+        const {diagnostics} = ts.transpileModule(code, {reportDiagnostics: true});
+        assert.deepStrictEqual(diagnostics, []);
+    });
+
+    it("imports only the library types it uses", () => {
+        assert.match(code, /^import type \{Bus, CallOptions, InterfaceDeclaration, InterfaceProxy, ProxySignalListener, Subscription, Value, Variant\} from "dbusjs";$/m);
+    });
+
+    it("maps argument types and renames reserved argument names", () => {
+        assert.match(code, /^ {4}Update\(values: Map<string, Variant>, class_: string, options_: \[number, number\], options\?: CallOptions\): Promise<\[Uint8Array, bigint\]> \{$/m);
+        assert.match(code, /^ {4}onChanged\(listener: \(default_: Map<string, Variant>, _2nd: \[number, number\]\) => void\): Subscription \{$/m);
+        assert.match(code, /^ {4}Update\(values: Map<string, Variant>, class_: string, options_: \[number, number\]\): \[Uint8Array, bigint\] \| Promise<\[Uint8Array, bigint\]>;$/m);
+        assert.match(code, /^ {4}getSize\(options\?: CallOptions\): Promise<bigint> \{$/m);
+        assert.match(code, /^ {4}getNames\(options\?: CallOptions\): Promise<string\[\]> \{$/m);
+    });
+
+    it("declares arguments by their D-Bus names and types", () => {
+        assert.ok(code.includes(
+            "inputs: [{name: \"values\", type: \"a{sv}\"}, {name: \"class\", type: \"s\"}, {name: \"options\", type: \"(iu)\"}],"));
+
+        assert.ok(code.includes("outputs: [{type: \"ay\"}, {name: \"stamp\", type: \"x\"}],"));
+        assert.ok(code.includes("emitsChange: \"invalidates\","));
+        assert.ok(!code.includes("setNames"));
+    });
+
+    it("marks deprecated members and interfaces with @deprecated", () => {
+        assert.strictEqual(docBefore(code, "Update(values"), "/** Invoke Update */");
+        assert.strictEqual(docBefore(code, "Reset(options"), "/**\n* Invoke Reset\n*\n* @deprecated\n*/");
+        assert.strictEqual(docBefore(code, "Reset()"), "/**\n* Handle Reset\n*\n* @deprecated\n*/");
+        assert.strictEqual(docBefore(code, "setSize(value: bigint, options"), "/**\n* Write Size\n*\n* @deprecated\n*/");
+        assert.strictEqual(docBefore(code, "export class OrgExampleLegacyClient"),
+            "/**\n* Client of org.example.Legacy\n*\n* @deprecated\n*/");
+
+        assert.strictEqual(docBefore(code, "export class OrgExampleSettingsClient"), "/** Client of org.example.Settings */");
+    });
+
+    it("leaves out standard interfaces unless asked for", () => {
+        assert.ok(!code.includes("OrgFreedesktopDBusPeer"));
+        assert.ok(generateTypeScript([xml], {includeStandard: true}).includes("class OrgFreedesktopDBusPeerClient"));
+    });
+
+    it("generates only the interfaces asked for", () => {
+        const legacy = generateTypeScript([xml], {interfaces: ["org.example.Legacy"], importFrom: "../src"});
+        assert.ok(!legacy.includes("OrgExampleSettings"));
+        assert.match(legacy, /^import type \{Bus, CallOptions, InterfaceDeclaration, InterfaceProxy\} from "\.\.\/src";$/m);
+        assert.throws(() => generateTypeScript([xml], {interfaces: ["org.example.Missing"]}), /org\.example\.Missing/);
+    });
+});
@@ -0,0 +1,105 @@
+import assert from "assert";
+import {describe, it} from "node:test";
+
+import {DataType, MalformedMessageError, MessageBuilder, MessageEndianness, MessageHeader, MessageKind} from "../src";
+import {MessageFramer} from "../src/framing";
+import {getBodySerializer} from "../src/serialization";
+
+function buildMessage(endianness: MessageEndianness, text: string): Uint8Array {
+    const builder = new MessageBuilder(MessageKind.Signal, endianness);
+    builder.setHeader(MessageHeader.Path, DataType.ObjectPath, "/a");
+    builder.setHeader(MessageHeader.Interface, DataType.String, "org.example.Interface");
+    builder.setHeader(MessageHeader.Member, DataType.String, "Changed");
+    return new Uint8Array(text ? builder.build(getBodySerializer("s"), [text]) : builder.build());
+}
+
+// Messages of various sizes and both byte orders, one after the other as on a stream
+const messages = [
+    buildMessage(MessageEndianness.Little, "short"),
+    buildMessage(MessageEndianness.Big, "x".repeat(1000)),
+    buildMessage(MessageEndianness.Little, ""),
+    buildMessage(MessageEndianness.Big, "😀".repeat(50)),
+];
+
+const stream = new Uint8Array(messages.reduce((sum, message) => sum + message.length, 0));
+messages.reduce((offset, message) => {
+    stream.set(message, offset);
+    return offset + message.length;
+}, 0);
+
+// Push the stream in chunks ending at the given offsets, collecting the messages framed
+function frame(ends: number[]): Uint8Array[] {
+    const framer = new MessageFramer();
+    const result: Uint8Array[] = [];
+    let start = 0;
+    for (const end of [...ends, stream.length]) {
+        for (const view of framer.push(stream.slice(start, end)))
+            result.push(new Uint8Array(view.buffer, view.byteOffset, view.byteLength));
+
+        start = end;
+    }
+
+    return result;
+}
+
+// A pseudo-random sequence repeatable from its seed, so that failures can be reproduced
+function random(seed: number): () => number {
+    return () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+    };
+}
+
+describe("MessageFramer", () => {
+    it("frames a stream arriving in one chunk", () => {
+        assert.deepStrictEqual(frame([]), messages);
+    });
+
+    it("frames a stream arriving byte by byte", () => {
+        const ends = Array.from({length: stream.length - 1}, (_, n) => n + 1);
+        assert.deepStrictEqual(frame(ends), messages);
+    });
+
+    it("frames a stream arriving in chunks of random sizes", () => {
+        for (let seed = 1; seed <= 100; ++seed) {
+            const next = random(seed);
+            const ends: number[] = [];
+            for (let end = 0; (end += 1 + Math.floor(next() * 64)) < stream.length;)
+                ends.push(end);
+
+            assert.deepStrictEqual(frame(ends), messages, `seed ${seed}`);
+        }
+    });
+
+    it("frames a stream split right after each fixed header", () => {
+        const ends: number[] = [];
+        for (let offset = 0, n = 0; n < messages.length; offset += messages[n++].length)
+            ends.push(offset + 16);
+
+        assert.deepStrictEqual(frame(ends), messages);
+    });
+
+    it("grows its buffer as bytes arrive, not to the size a message claims", () => {
+        // a fixed header claiming a body of 100 MiB
+        const header = messages[0].slice(0, 16);
+        new DataView(header.buffer).setUint32(4, 100 << 20, true);
+
+        const framer = new MessageFramer();
+        const before = process.memoryUsage().arrayBuffers;
+        assert.deepStrictEqual(framer.push(header), []);
+        assert.deepStrictEqual(framer.push(new Uint8Array(1000)), []);
+        assert.ok(process.memoryUsage().arrayBuffers - before < 1 << 20);
+    });
+
+    it("rejects messages without a valid endianness mark", () => {
+        const bytes = messages[0].slice();
+        bytes[0] = 120;
+        assert.throws(() => new MessageFramer().push(bytes), MalformedMessageError);
+    });
+
+    it("rejects messages claiming more than the size limit", () => {
+        const header = messages[0].slice(0, 16);
+        new DataView(header.buffer).setUint32(4, 1 << 27, true);
+        assert.throws(() => new MessageFramer().push(header), MalformedMessageError);
+    });
+});
@@ -0,0 +1,51 @@
+import assert from "assert";
+import {describe, it} from "node:test";
+
+import {type Value, DataType, MessageBuilder, MessageHeader, MessageKind, MessageReader, Variant} from "../src";
+import {IntrospectionResult} from "../src/introspection";
+import {getBodySerializer} from "../src/serialization";
+
+const xml = `<node>
+  <interface name="org.example.Deep">
+    <method name="Get">
+      <arg name="key" type="s" direction="in"/>
+      <arg name="value" type="v" direction="out"/>
+    </method>
+    <signal name="Changed">
+      <arg name="value" type="v"/>
+    </signal>
+  </interface>
+</node>`;
+
+// A variant holding variants, 64 deep in all as the spec allows
+function nestVariants(depth: number): Value {
+    let result: Value = 1;
+    for (let n = 0; n < depth; ++n)
+        result = new Variant(n ? DataType.Variant : DataType.Int32, result);
+
+    return result;
+}
+
+function buildSignal(value: Value): MessageReader {
+    const builder = new MessageBuilder(MessageKind.Signal);
+    builder.setHeader(MessageHeader.Path, DataType.ObjectPath, "/a");
+    builder.setHeader(MessageHeader.Interface, DataType.String, "org.example.Deep");
+    builder.setHeader(MessageHeader.Member, DataType.String, "Changed");
+    return new MessageReader(new DataView(builder.build(getBodySerializer("v"), [value])));
+}
+
+describe("IntrospectionResult", () => {
+    const iface = IntrospectionResult.parse(xml).getInterface("org.example.Deep")!;
+
+    it("decodes method results as a body, not as a struct", () => {
+        const reader = buildSignal(nestVariants(64));
+        const results = reader.readBody(iface.getMethod("Get")!.getResultsDeserializer());
+        assert.deepStrictEqual(results, [nestVariants(64)]);
+    });
+
+    it("decodes signal arguments as a body, not as a struct", () => {
+        const reader = buildSignal(nestVariants(64));
+        const args = reader.readBody(iface.getSignal("Changed")!.getArgumentsDeserializer());
+        assert.deepStrictEqual(args, [nestVariants(64)]);
+    });
+});
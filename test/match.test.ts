@@ -0,0 +1,121 @@
+import assert from "assert";
+import {describe, it} from "node:test";
+
+import {type MatchRuleFields, type Value, DBusError, ErrorName, MatchRule, MessageHeader, MessageKind} from "../src";
+import type {ScalarValue} from "../src/serialization";
+
+// Check a signal with the given headers and arguments against a rule
+function matches(fields: MatchRuleFields, headers: {[K in MessageHeader]?: ScalarValue}, args: Value[] = []): boolean {
+    const values: Array<ScalarValue | undefined> = [];
+    for (const key of Object.keys(headers))
+        values[Number(key)] = headers[Number(key) as MessageHeader];
+
+    return new MatchRule(fields).matches(MessageKind.Signal, values, () => args);
+}
+
+describe("MatchRule", () => {
+    it("formats fields in the form AddMatch takes", () => {
+        const rule = new MatchRule({
+            type: "signal",
+            interface: "org.example.Interface",
+            args: {2: "two", 0: "zero"},
+            argPaths: {1: "/a/"},
+            arg0Namespace: "org.example",
+        });
+
+        assert.strictEqual(rule.toString(), "type='signal',interface='org.example.Interface',arg0='zero',arg2='two'"
+            + ",arg1path='/a/',arg0namespace='org.example'");
+    });
+
+    it("quotes apostrophes outside of quotes and keeps commas within them", () => {
+        const rule = new MatchRule({member: "Changed", args: {0: "don't, won't"}});
+        assert.strictEqual(rule.toString(), String.raw`member='Changed',arg0='don'\''t, won'\''t'`);
+    });
+
+    for (const value of ["", "'", "''", "a,b", "',", ",'", String.raw`\\`, String.raw`\'`, "a = b"]) {
+        it(`round-trips a value of ${JSON.stringify(value)}`, () => {
+            const rule = new MatchRule({type: "signal", args: {0: value}, path: "/a"});
+            const parsed = MatchRule.parse(rule.toString());
+            assert.deepStrictEqual(parsed.fields, rule.fields);
+            assert.strictEqual(parsed.toString(), rule.toString());
+        });
+    }
+
+    it("parses unquoted values, taking backslashes literally unless before an apostrophe", () => {
+        const rule = MatchRule.parse(String.raw`type=signal, member=Changed,arg0=a\b,arg1=\'c,arg2='d\e'`);
+        assert.deepStrictEqual(rule.fields, {
+            type: "signal",
+            member: "Changed",
+            args: {0: String.raw`a\b`, 1: "'c", 2: String.raw`d\e`},
+        });
+    });
+
+    it("parses path and namespace keys", () => {
+        const rule = MatchRule.parse("path_namespace='/org/example',arg3path='/a/',arg0namespace='org.example'");
+        assert.deepStrictEqual(rule.fields, {
+            pathNamespace: "/org/example",
+            argPaths: {3: "/a/"},
+            arg0Namespace: "org.example",
+        });
+    });
+
+    for (const text of ["type='signal", "member", "type='nothing'", "arg64='a'", "arg1namespace='a'", "size='1'",
+        "path='/a',path_namespace='/b'"]) {
+        it(`rejects ${text}`, () => {
+            assert.throws(() => MatchRule.parse(text), (e: unknown) => {
+                return e instanceof DBusError && e.errorName === ErrorName.MatchRuleInvalid;
+            });
+        });
+    }
+
+    it("matches header fields", () => {
+        const headers = {
+            [MessageHeader.Path]: "/org/example",
+            [MessageHeader.Interface]: "org.example.Interface",
+            [MessageHeader.Member]: "Changed",
+        };
+
+        assert.ok(matches({type: "signal", interface: "org.example.Interface", member: "Changed"}, headers));
+        assert.ok(!matches({type: "method_call"}, headers));
+        assert.ok(!matches({member: "Other"}, headers));
+        assert.ok(!matches({path: "/org"}, headers));
+    });
+
+    it("matches paths within path_namespace", () => {
+        const at = (path: string) => ({[MessageHeader.Path]: path});
+        assert.ok(matches({pathNamespace: "/org/example"}, at("/org/example")));
+        assert.ok(matches({pathNamespace: "/org/example"}, at("/org/example/child")));
+        assert.ok(!matches({pathNamespace: "/org/example"}, at("/org/examples")));
+        assert.ok(!matches({pathNamespace: "/org/example"}, at("/org")));
+        assert.ok(matches({pathNamespace: "/"}, at("/anything")));
+    });
+
+    it("matches string arguments by position", () => {
+        assert.ok(matches({args: {0: "a", 2: "c"}}, {}, ["a", "b", "c"]));
+        assert.ok(!matches({args: {0: "a", 2: "c"}}, {}, ["a", "b", "x"]));
+        assert.ok(!matches({args: {3: "d"}}, {}, ["a", "b", "c"]));
+        assert.ok(!matches({args: {0: "1"}}, {}, [1]));
+    });
+
+    it("matches argNpath as paths on either side", () => {
+        const argPaths = {0: "/aa/bb/"};
+        assert.ok(matches({argPaths}, {}, ["/aa/bb/"]));
+        assert.ok(matches({argPaths}, {}, ["/aa/bb/cc"]));
+        assert.ok(matches({argPaths}, {}, ["/aa/"]));
+        assert.ok(matches({argPaths}, {}, ["/"]));
+        assert.ok(!matches({argPaths}, {}, ["/aa/bb"]));
+        assert.ok(!matches({argPaths}, {}, ["/aa"]));
+        assert.ok(!matches({argPaths}, {}, ["/aa/b"]));
+        assert.ok(!matches({argPaths: {0: "/aa/bb"}}, {}, ["/aa/bb/cc"]));
+        assert.ok(!matches({argPaths}, {}, [1]));
+    });
+
+    it("matches arg0namespace on whole name elements", () => {
+        const arg0Namespace = "org.example";
+        assert.ok(matches({arg0Namespace}, {}, ["org.example"]));
+        assert.ok(matches({arg0Namespace}, {}, ["org.example.Child"]));
+        assert.ok(!matches({arg0Namespace}, {}, ["org.examples"]));
+        assert.ok(!matches({arg0Namespace}, {}, ["org"]));
+        assert.ok(!matches({arg0Namespace}, {}, []));
+    });
+});
@@ -0,0 +1,78 @@
+import assert from "assert";
+import {describe, it} from "node:test";
+
+import {
+    type Value,
+    DataType,
+    MalformedMessageError,
+    MessageBuilder,
+    MessageHeader,
+    MessageKind,
+    MessageReader,
+    Variant,
+} from "../src";
+import {getBodySerializer} from "../src/serialization";
+
+function buildSignal(signature: string = "", values: Value[] = []): Uint8Array {
+    const builder = new MessageBuilder(MessageKind.Signal);
+    builder.setHeader(MessageHeader.Path, DataType.ObjectPath, "/a");
+    builder.setHeader(MessageHeader.Interface, DataType.String, "org.example.Interface");
+    builder.setHeader(MessageHeader.Member, DataType.String, "Changed");
+
+    const result = new Uint8Array(signature ? builder.build(getBodySerializer(signature), values) : builder.build());
+    result[8] = 1;
+    return result;
+}
+
+describe("message types", () => {
+    it("accepts messages of unknown types as valid", () => {
+        const bytes = buildSignal();
+        bytes[1] = 42;
+        new MessageReader(new DataView(bytes.buffer)).validate();
+    });
+
+    it("rejects messages of the invalid type", () => {
+        const bytes = buildSignal();
+        bytes[1] = MessageKind.Invalid;
+        assert.throws(() => new MessageReader(new DataView(bytes.buffer)).validate(), MalformedMessageError);
+    });
+
+    it("refuses to build messages of unknown types", () => {
+        assert.throws(() => new MessageBuilder(42 as MessageKind).build(), /Unknown message type 42/);
+    });
+});
+
+describe("nesting", () => {
+    // variants within variants, as deep as asked
+    function nestVariants(depth: number): Value {
+        let result: Value = 1;
+        for (let n = 0; n < depth; ++n)
+            result = new Variant(n ? DataType.Variant : DataType.Int32, result);
+
+        return result;
+    }
+
+    // arrays and structs are both decoded as JS arrays
+    function nestArrays(depth: number, value: Value): Value {
+        return depth ? [nestArrays(depth - 1, value)] : value;
+    }
+
+    it("accepts values nested as deep as the spec allows", () => {
+        const bytes = buildSignal("v", [nestVariants(64)]);
+        const reader = new MessageReader(new DataView(bytes.buffer));
+        reader.validate();
+        assert.deepStrictEqual(reader.readBody(), [nestVariants(64)]);
+    });
+
+    it("rejects values nested deeper through variants", () => {
+        const bytes = buildSignal("v", [nestVariants(65)]);
+        assert.throws(() => new MessageReader(new DataView(bytes.buffer)).validate(), MalformedMessageError);
+    });
+
+    it("counts the arrays and structs around and within variants", () => {
+        // each signature is within limits, 65 containers deep once put together
+        const signature = "a".repeat(32) + "(".repeat(31) + "i" + ")".repeat(31);
+        const bytes = buildSignal("(v)", [[new Variant(signature, nestArrays(63, 1))]]);
+        assert.throws(() => new MessageReader(new DataView(bytes.buffer)).validate(), /nested more than 64 deep/);
+    });
+});
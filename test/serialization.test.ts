@@ -0,0 +1,104 @@
+import assert from "assert";
+import {describe, it} from "node:test";
+
+import {
+    type Value,
+    DataType,
+    MessageBuilder,
+    MessageEndianness,
+    MessageHeader,
+    MessageKind,
+    MessageReader,
+    Variant,
+} from "../src";
+import {getBodySerializer} from "../src/serialization";
+
+// A value of each type, and of each kind of container
+const samples: [string, Value][] = [
+    [DataType.Byte, 200],
+    [DataType.Boolean, true],
+    [DataType.Int16, -300],
+    [DataType.Unsigned16, 60000],
+    [DataType.Int32, -70000],
+    [DataType.Unsigned32, 4000000000],
+    [DataType.Int64, -(2n ** 60n)],
+    [DataType.Unsigned64, 2n ** 63n + 5n],
+    [DataType.Double, Math.PI],
+    [DataType.String, "héllo 😀"],
+    [DataType.ObjectPath, "/org/example/Object"],
+    [DataType.TypeSignature, "a{sv}(iu)"],
+    [DataType.Variant, new Variant("at", [1n, 2n])],
+    ["ay", new Uint8Array([1, 2, 3])],
+    ["as", ["a", "", "c"]],
+    ["a{sv}", new Map([["key", new Variant("i", -1)]])],
+    ["a{yq}", new Map([[1, 2], [3, 4]])],
+    ["(si)", ["s", 5]],
+    ["a(yt)", [[1, 1n], [2, 2n]]],
+    ["aai", [[], [1, 2]]],
+    ["(ya(sv))", [7, [["v", new Variant("s", "nested")]]]],
+];
+
+function roundTrip(endianness: MessageEndianness, signature: string, values: Value[]): MessageReader {
+    const builder = new MessageBuilder(MessageKind.Signal, endianness);
+    builder.setHeader(MessageHeader.Path, DataType.ObjectPath, "/a");
+    builder.setHeader(MessageHeader.Interface, DataType.String, "org.example.Interface");
+    builder.setHeader(MessageHeader.Member, DataType.String, "Changed");
+    const buffer = builder.build(getBodySerializer(signature), values);
+
+    // serials are assigned by connections, yet validation wants one
+    const view = new DataView(buffer);
+    view.setUint32(8, 1, endianness === MessageEndianness.Little);
+
+    const reader = new MessageReader(view);
+    reader.validate();
+    return reader;
+}
+
+describe("serialization", () => {
+    it("covers every DataType", () => {
+        for (const type of Object.values(DataType))
+            assert.ok(samples.some(([signature]) => signature.includes(type)), type);
+    });
+
+    for (const endianness of [MessageEndianness.Little, MessageEndianness.Big]) {
+        const order = endianness === MessageEndianness.Little ? "little" : "big";
+
+        for (const [signature, value] of samples)
+            it(`round-trips ${signature} in ${order} endian`, () => {
+                const reader = roundTrip(endianness, signature, [value]);
+                assert.strictEqual(reader.getEndianness(), endianness);
+                assert.deepStrictEqual(reader.readBody(), [value]);
+            });
+
+        it(`round-trips a body of every sample in ${order} endian`, () => {
+            const signature = samples.map(([s]) => s).join("");
+            const values = samples.map(([, v]) => v);
+            assert.deepStrictEqual(roundTrip(endianness, signature, values).readBody(), values);
+        });
+
+        it(`keeps the ${order} endian byte order of a forwarded message`, () => {
+            const reader = roundTrip(endianness, "sat", ["x", [1n]]);
+            const copy = MessageBuilder.from(reader);
+            copy.setHeader(MessageHeader.Sender, DataType.String, ":1.1");
+
+            const forwarded = new MessageReader(new DataView(copy.build()));
+            forwarded.validate();
+            assert.strictEqual(forwarded.getEndianness(), endianness);
+            assert.strictEqual(forwarded.getHeader(MessageHeader.Sender), ":1.1");
+            assert.deepStrictEqual(forwarded.readBody(), ["x", [1n]]);
+        });
+    }
+
+    it("decodes a __proto__ key as any other with dictionaryObjects", () => {
+        const reader = roundTrip(MessageEndianness.Little, "a{ss}", [new Map([["__proto__", "x"], ["a", "b"]])]);
+        const [result] = reader.readBody(undefined, {dictionaryObjects: true}) as [{[key: string]: string}];
+        assert.strictEqual(Object.getPrototypeOf(result), null);
+        assert.deepStrictEqual(Object.entries(result), [["__proto__", "x"], ["a", "b"]]);
+    });
+
+    it("writes different bytes in each byte order", () => {
+        const little = roundTrip(MessageEndianness.Little, "u", [1]);
+        const big = roundTrip(MessageEndianness.Big, "u", [1]);
+        assert.notDeepStrictEqual(new Uint8Array(little.view.buffer), new Uint8Array(big.view.buffer));
+    });
+});
@@ -0,0 +1,83 @@
+import assert from "assert";
+import {randomBytes} from "crypto";
+import {type Socket, createConnection} from "net";
+import {describe, it} from "node:test";
+
+import {type Bus, type ServerOptions, type TcpAddress, Server, anonymousAuth, externalAuth, openPeer, parseAddress} from "../src";
+
+// Whether a client authenticating with EXTERNAL only gets in
+function connectsWithExternal(address: string, options: ServerOptions): Promise<boolean> {
+    return Server.listen(address, () => undefined, options).then(server => openPeer(server.address, {
+        authMethods: [externalAuth()],
+    }).then(peer => {
+        peer.close();
+        return true;
+    }, () => false).finally(() => server.close()));
+}
+
+// Echo a string the size of the whole handshake allowance, which the first message may come along with
+function echoesLargeMessage(address: string): Promise<void> {
+    const exportEcho = (peer: Bus) => peer.exportObject("/echo", [{
+        name: "org.example.Echo",
+        methods: {Echo: {inputs: [{type: "s"}], outputs: [{type: "s"}], handler: value => value}},
+    }]);
+
+    const value = "x".repeat(20000);
+    return Server.listen(address, exportEcho, {allowAnonymous: true}).then(server => {
+        return openPeer(server.address, {authMethods: [anonymousAuth()]}).then(peer => {
+            return peer.call("", "/echo", "org.example.Echo", "Echo", "s", [value])
+                .then(result => assert.deepStrictEqual(result, [value]))
+                .finally(() => peer.close());
+        }).finally(() => server.close());
+    });
+}
+
+// Connect to a tcp server without saying anything
+function connectSilently(server: Server): Promise<Socket> {
+    const address = parseAddress(server.address) as TcpAddress;
+    const socket = createConnection({host: address.host, port: Number(address.port)});
+    socket.on("data", () => undefined);
+    return new Promise(resolve => socket.once("connect", () => resolve(socket)));
+}
+
+function waitForClose(socket: Socket): Promise<void> {
+    return new Promise(resolve => socket.once("close", () => resolve()));
+}
+
+describe("Server", () => {
+    it("takes a large first message along with BEGIN over tcp", () => {
+        return echoesLargeMessage("tcp:host=127.0.0.1,port=0");
+    });
+
+    it("takes a large first message along with BEGIN over unix sockets", () => {
+        return echoesLargeMessage("unix:tmpdir=/tmp");
+    });
+
+    it("drops clients that do not authenticate in time", () => {
+        const options = {allowAnonymous: true, authTimeout: 50};
+        return Server.listen("tcp:host=127.0.0.1,port=0", () => undefined, options).then(server => {
+            return connectSilently(server).then(waitForClose).finally(() => server.close());
+        });
+    });
+
+    it("drops clients still authenticating when closed", () => {
+        return Server.listen("tcp:host=127.0.0.1,port=0", () => undefined, {allowAnonymous: true}).then(server => {
+            return connectSilently(server).then(socket => Promise.all([waitForClose(socket), server.close()]))
+                .then(() => undefined);
+        });
+    });
+
+    it("does not offer EXTERNAL unless allowed", () => {
+        return connectsWithExternal("unix:tmpdir=/tmp", {}).then(result => assert.strictEqual(result, false));
+    });
+
+    it("offers EXTERNAL on sockets with a path when allowed", () => {
+        return connectsWithExternal("unix:tmpdir=/tmp", {allowExternal: true})
+            .then(result => assert.strictEqual(result, true));
+    });
+
+    it("never offers EXTERNAL on abstract sockets", () => {
+        const address = `unix:abstract=dbusjs-test-${randomBytes(8).toString("hex")}`;
+        return connectsWithExternal(address, {allowExternal: true}).then(result => assert.strictEqual(result, false));
+    });
+});
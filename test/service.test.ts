@@ -0,0 +1,57 @@
+import assert from "assert";
+import {describe, it} from "node:test";
+
+import {DataType, DBusError, ErrorName, MessageBuilder, MessageHeader, MessageKind, MessageReader} from "../src";
+import {ObjectRegistry} from "../src/service";
+
+function buildCall(member: string): MessageReader {
+    const builder = new MessageBuilder(MessageKind.Call);
+    builder.setHeader(MessageHeader.Path, DataType.ObjectPath, "/test");
+    builder.setHeader(MessageHeader.Interface, DataType.String, "org.example.Test");
+    builder.setHeader(MessageHeader.Member, DataType.String, member);
+
+    const view = new DataView(builder.build());
+    view.setUint32(8, 1, true);
+    return new MessageReader(view);
+}
+
+// Call a method throwing error, resolving to the reply sent back
+function callThrowing(error: unknown): Promise<MessageReader> {
+    return new Promise(resolve => {
+        const registry = new ObjectRegistry({
+            send: value => {
+                resolve(new MessageReader(new DataView(value)));
+                return 1;
+            },
+        });
+
+        registry.add("/test", [{
+            name: "org.example.Test",
+            methods: {
+                Fail: {
+                    handler: () => {
+                        throw error;
+                    },
+                },
+            },
+        }]);
+
+        registry.dispatch(buildCall("Fail"));
+    });
+}
+
+describe("ObjectRegistry", () => {
+    const cases: [string, Error, string][] = [
+        ["a DBusError", new DBusError("org.example.Error", "no"), "org.example.Error"],
+        ["any other error", new Error("no"), ErrorName.Failed],
+        ["a DBusError with an invalid name", new DBusError("not a name", "no"), ErrorName.Failed],
+        ["an error with a nul in its message", new Error("n\0o"), ErrorName.Failed],
+    ];
+
+    for (const [description, error, errorName] of cases)
+        it(`replies to ${description} thrown by a handler`, () => callThrowing(error).then(reply => {
+            assert.strictEqual(reply.getKind(), MessageKind.Error);
+            assert.strictEqual(reply.getHeader(MessageHeader.ErrorName), errorName);
+            assert.strictEqual(reply.getReplySerial(), 1);
+        }));
+});
@@ -0,0 +1,278 @@
+import assert from "assert";
+import {randomBytes} from "crypto";
+import {mkdtemp, rm, writeFile} from "fs/promises";
+import {type AddressInfo, type Socket, createServer} from "net";
+import {tmpdir} from "os";
+import {join} from "path";
+import {describe, it} from "node:test";
+
+import {
+    type Bus,
+    Broker,
+    DBusError,
+    DataType,
+    ErrorName,
+    MalformedMessageError,
+    MessageBuilder,
+    MessageHeader,
+    MessageKind,
+    Server,
+    anonymousAuth,
+    formatAddress,
+    openPeer,
+    parseAddress,
+    sessionBus,
+    splitAddresses,
+} from "../src";
+import {getBodySerializer} from "../src/serialization";
+import {ConnectionAcceptor} from "../src/server";
+import {Connection} from "../src/transport";
+
+// Listen for peers with an echo method
+function listenEcho(): Promise<Server> {
+    const exportEcho = (peer: Bus) => peer.exportObject("/echo", [{
+        name: "org.example.Echo",
+        methods: {Echo: {inputs: [{type: "s"}], outputs: [{type: "s"}], handler: value => value}},
+    }]);
+
+    return Server.listen("tcp:host=127.0.0.1,port=0", exportEcho, {allowAnonymous: true});
+}
+
+// Listen for a single peer with an echo method, resolving to the server and a raw connection to it
+function connectRaw(): Promise<[Server, Connection]> {
+    return listenEcho().then(server => {
+        const options = {authMethods: [anonymousAuth()]};
+        return Connection.open(parseAddress(server.address), options, false).then(connection => [server, connection]);
+    });
+}
+
+function buildEcho(): MessageBuilder {
+    const builder = new MessageBuilder(MessageKind.Call);
+    builder.setHeader(MessageHeader.Path, DataType.ObjectPath, "/echo");
+    builder.setHeader(MessageHeader.Interface, DataType.String, "org.example.Echo");
+    builder.setHeader(MessageHeader.Member, DataType.String, "Echo");
+    return builder;
+}
+
+describe("addresses", () => {
+    it("unescapes values as UTF-8 bytes", () => {
+        assert.deepStrictEqual(parseAddress("unix:path=/tmp/a%2cb%3Bc%25d%20%c3%a9"), {
+            transport: "unix",
+            path: "/tmp/a,b;c%d \u00e9",
+        });
+    });
+
+    for (const value of ["/tmp/%", "/tmp/%2", "/tmp/%zz"]) {
+        it(`rejects the invalid escape in ${value}`, () => {
+            assert.throws(() => parseAddress(`unix:path=${value}`), /Invalid escape sequence/);
+        });
+    }
+
+    it("escapes what parseAddress would not read back as is", () => {
+        const address = {transport: "unix", path: "/tmp/a,b;c=d%e \u00e9"} as const;
+        const formatted = formatAddress(address);
+        assert.strictEqual(formatted, "unix:path=/tmp/a%2cb%3bc%3dd%25e%20%c3%a9");
+        assert.deepStrictEqual(parseAddress(formatted), address);
+    });
+
+    it("splits lists of addresses, skipping empty ones", () => {
+        assert.deepStrictEqual(splitAddresses("unix:path=/a%3bb;;tcp:host=localhost,port=1;"), [
+            "unix:path=/a%3bb",
+            "tcp:host=localhost,port=1",
+        ]);
+
+        assert.deepStrictEqual(splitAddresses(""), []);
+    });
+
+    it("connects to the first address of a list that works", () => {
+        return listenEcho().then(server => {
+            const addresses = `bogus:;unix:path=/nonexistent/dbusjs;${server.address}`;
+            return openPeer(addresses, {authMethods: [anonymousAuth()]})
+                .then(peer => peer.call("", "/echo", "org.example.Echo", "Echo", "s", ["x"])
+                    .then(result => assert.deepStrictEqual(result, ["x"]))
+                    .finally(() => peer.close()))
+                .finally(() => server.close());
+        });
+    });
+
+    it("reports the failure of the last address when none works", () => {
+        return openPeer("bogus:;unix:path=/nonexistent/dbusjs").then(
+            () => assert.fail("Connected"),
+            (e: NodeJS.ErrnoException) => assert.strictEqual(e.code, "ENOENT"));
+    });
+
+    it("falls back to the bus in XDG_RUNTIME_DIR for the session bus", () => {
+        const {DBUS_SESSION_BUS_ADDRESS, XDG_RUNTIME_DIR} = process.env;
+        const restore = (name: string, value: string | undefined) => {
+            if (value === undefined)
+                delete process.env[name];
+            else
+                process.env[name] = value;
+        };
+
+        // a directory name that needs escaping in an address
+        return mkdtemp(join(tmpdir(), "dbusjs,;%=")).then(directory => {
+            const address = formatAddress({transport: "unix", path: join(directory, "bus")});
+            return Broker.start(address, {allowAnonymous: true}).then(broker => {
+                delete process.env.DBUS_SESSION_BUS_ADDRESS;
+                process.env.XDG_RUNTIME_DIR = directory;
+
+                return sessionBus({authMethods: [anonymousAuth()]})
+                    .then(bus => bus.getId().then(id => assert.strictEqual(id, broker.guid)).finally(() => bus.close()))
+                    .finally(() => {
+                        restore("DBUS_SESSION_BUS_ADDRESS", DBUS_SESSION_BUS_ADDRESS);
+                        restore("XDG_RUNTIME_DIR", XDG_RUNTIME_DIR);
+                        return broker.close();
+                    });
+            }).finally(() => rm(directory, {recursive: true}));
+        });
+    });
+});
+
+describe("tcp transports", () => {
+    it("connects to a tcp: address", () => {
+        return Server.listen("tcp:host=127.0.0.1,port=0", () => undefined, {allowAnonymous: true}).then(server => {
+            assert.match(server.address, /^tcp:host=127\.0\.0\.1,port=[1-9]\d*,guid=[0-9a-f]{32}$/);
+            return openPeer(server.address, {authMethods: [anonymousAuth()]})
+                .then(peer => peer.close())
+                .finally(() => server.close());
+        });
+    });
+
+    it("sends the nonce of a nonce-tcp: address before authenticating", () => {
+        const nonce = randomBytes(16);
+        let received = Buffer.alloc(0);
+
+        // a listener that only takes in what the client sends first, then hangs up
+        const listener = createServer(socket => socket.on("data", data => {
+            received = Buffer.concat([received, data]);
+            if (received.length >= nonce.length + 5)
+                socket.destroy();
+        }));
+
+        return mkdtemp(join(tmpdir(), "dbusjs-")).then(directory => {
+            const noncefile = join(directory, "nonce");
+            return writeFile(noncefile, nonce)
+                .then(() => new Promise<void>(resolve => listener.listen(0, "127.0.0.1", resolve)))
+                .then(() => {
+                    const {port} = listener.address() as AddressInfo;
+                    return openPeer(`nonce-tcp:host=127.0.0.1,port=${port},noncefile=${noncefile}`).then(
+                        () => assert.fail("Connected without authenticating"),
+                        () => undefined);
+                })
+                .then(() => {
+                    assert.deepStrictEqual(received.subarray(0, nonce.length), nonce);
+                    assert.strictEqual(received.subarray(nonce.length, nonce.length + 5).toString("latin1"), "\0AUTH");
+                })
+                .finally(() => {
+                    listener.close();
+                    return rm(directory, {recursive: true});
+                });
+        });
+    });
+});
+
+describe("openPeer", () => {
+    it("moves on from a server that never lets it in to the next address", () => {
+        const sockets: Socket[] = [];
+        const silent = createServer(socket => sockets.push(socket.on("data", () => undefined)));
+
+        return new Promise<void>(resolve => silent.listen(0, "127.0.0.1", resolve)).then(() => {
+            const {port} = silent.address() as AddressInfo;
+            return listenEcho().then(server => {
+                const options = {authMethods: [anonymousAuth()], authTimeout: 50};
+                return openPeer(`tcp:host=127.0.0.1,port=${port};${server.address}`, options)
+                    .then(peer => peer.call("", "/echo", "org.example.Echo", "Echo", "s", ["x"])
+                        .then(result => assert.deepStrictEqual(result, ["x"]))
+                        .finally(() => peer.close()))
+                    .finally(() => server.close());
+            });
+        }).finally(() => {
+            for (const socket of sockets)
+                socket.destroy();
+
+            silent.close();
+        });
+    });
+});
+
+describe("Connection", () => {
+    it("ignores messages of unknown types", () => {
+        return connectRaw().then(([server, connection]) => {
+            const unknown = new Uint8Array(buildEcho().build());
+            unknown[1] = 42;
+            connection.send(unknown.buffer);
+
+            return connection.sendAndReceive(buildEcho().build(getBodySerializer("s"), ["still there"]))
+                .then(reply => assert.deepStrictEqual(reply.readBody(), ["still there"]))
+                .finally(() => {
+                    connection.close();
+                    return server.close();
+                });
+        });
+    });
+
+    it("fails pending calls with the error that broke the connection off", () => {
+        // answers anything with a message that has no valid endianness mark
+        const reply = (connection: Connection, auth: unknown, socket: Socket) =>
+            connection.setMessageHandler(() => socket.write(new Uint8Array(16).fill(120)));
+
+        return ConnectionAcceptor.listen("tcp:host=127.0.0.1,port=0", reply, {allowAnonymous: true}).then(acceptor => {
+            const options = {authMethods: [anonymousAuth()]};
+            return Connection.open(parseAddress(acceptor.address), options, false)
+                .then(connection => connection.sendAndReceive(buildEcho().build(getBodySerializer("s"), ["x"])))
+                .then(() => assert.fail("Got a reply"), e => assert.ok(e instanceof MalformedMessageError, e))
+                .finally(() => acceptor.close());
+        });
+    });
+});
+
+describe("Bus", () => {
+    it("fails calls made once closed right away", () => {
+        return Server.listen("tcp:host=127.0.0.1,port=0", () => undefined, {allowAnonymous: true}).then(server => {
+            return openPeer(server.address, {authMethods: [anonymousAuth()]}).then(peer => {
+                peer.close();
+                const started = Date.now();
+                assert.throws(() => peer.send(buildEcho()), DBusError);
+
+                return peer.call("", "/echo", "org.example.Echo", "Echo", "s", ["x"], {timeout: 0}).then(
+                    () => assert.fail("Got a reply"),
+                    e => {
+                        assert.ok(e instanceof DBusError && e.errorName === ErrorName.Disconnected, e);
+                        assert.ok(Date.now() - started < 500);
+                    });
+            }).finally(() => server.close());
+        });
+    });
+
+    it("sends without asking for a reply, leaving the builder as it was", () => {
+        let calls = 0;
+        const exportEcho = (peer: Bus) => peer.exportObject("/echo", [{
+            name: "org.example.Echo",
+            methods: {
+                Echo: {
+                    inputs: [{type: "s"}],
+                    outputs: [{type: "s"}],
+                    handler: value => {
+                        ++calls;
+                        return value;
+                    },
+                },
+            },
+        }]);
+
+        return Server.listen("tcp:host=127.0.0.1,port=0", exportEcho, {allowAnonymous: true}).then(server => {
+            return openPeer(server.address, {authMethods: [anonymousAuth()]}).then(peer => {
+                const message = buildEcho();
+                peer.send(message, getBodySerializer("s"), ["once"], {noReply: true});
+
+                return peer.invoke(message, getBodySerializer("s"), ["twice"], {timeout: 1000})
+                    .then(reply => {
+                        assert.deepStrictEqual(reply.readBody(), ["twice"]);
+                        assert.strictEqual(calls, 2);
+                    })
+                    .finally(() => peer.close());
+            }).finally(() => server.close());
+        });
+    });
+});